@@ -0,0 +1,150 @@
+import { describe, expect, it } from "bun:test";
+import { AuthError, ForbiddenError } from "../../error.js";
+import {
+  type ApiKeyRecord,
+  generateApiKey,
+  hashApiKey,
+  newApiKeyStoreMemory,
+  newAuthApiKey,
+} from "./index.js";
+
+const USER = { id: "service-1", mail: "cron@example.com" };
+
+const bearerRequest = (key: string) =>
+  new Request("https://api.example.com", {
+    headers: { Authorization: `Bearer ${key}` },
+  });
+
+// キーを生成して保存先に登録する
+const setup = async (record: Partial<ApiKeyRecord> = {}) => {
+  const { key, prefix, hash } = (await generateApiKey())._unsafeUnwrap();
+  const store = newApiKeyStoreMemory();
+  store.add({ prefix, hash, user: USER, scopes: ["cron"], ...record });
+  return { key, prefix, store };
+};
+
+describe("newAuthApiKey", () => {
+  it("正しいキーからユーザーとスコープを取得できること", async () => {
+    const { key, store } = await setup({ scopes: ["cron", "read"] });
+    const auth = newAuthApiKey({ store, requiredScopes: ["cron"] });
+
+    const user = (await auth.auth(bearerRequest(key)))._unsafeUnwrap();
+    expect(user).toEqual({
+      ...USER,
+      claims: { scopes: ["cron", "read"] },
+    });
+  });
+
+  it("登録されていない prefix のキーは AuthError になること", async () => {
+    const { store } = await setup();
+    const other = (await generateApiKey())._unsafeUnwrap();
+
+    const e = (
+      await newAuthApiKey({ store }).auth(bearerRequest(other.key))
+    )._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+    expect(e.message).toBe("Unknown API key");
+  });
+
+  it("prefix が一致してもシークレットが異なるキーは AuthError になること", async () => {
+    const { key, store } = await setup();
+    const last = key.endsWith("A") ? "B" : "A";
+    const wrong = `${key.slice(0, -1)}${last}`;
+
+    const e = (
+      await newAuthApiKey({ store }).auth(bearerRequest(wrong))
+    )._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+    expect(e.message).toBe("Invalid API key");
+  });
+
+  it("形式が正しくないキーは AuthError になること", async () => {
+    const { key, store } = await setup();
+    const auth = newAuthApiKey({ store });
+
+    for (const malformed of [
+      "garbage",
+      key.replace(/^nwu_/, "abc_"),
+      `${key}x`,
+      key.replace(/_[0-9a-f]{12}_/, "_XYZ_"),
+    ]) {
+      const e = (await auth.auth(bearerRequest(malformed)))._unsafeUnwrapErr();
+      expect(e).toBeInstanceOf(AuthError);
+      expect(e.message).toBe("Malformed API key");
+    }
+  });
+
+  it("有効期限を過ぎたキーは AuthError になること", async () => {
+    const { key, store } = await setup({
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    const e = (
+      await newAuthApiKey({ store }).auth(bearerRequest(key))
+    )._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+    expect(e.message).toBe("API key has expired");
+  });
+
+  it("必要なスコープが足りないキーは ForbiddenError になること", async () => {
+    const { key, store } = await setup({ scopes: ["read"] });
+    const auth = newAuthApiKey({ store, requiredScopes: ["cron", "read"] });
+
+    const e = (await auth.auth(bearerRequest(key)))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(ForbiddenError);
+    expect(e.message).toBe("API key is missing required scopes: cron");
+    expect(e.details).toEqual(["cron"]);
+    expect(e.issues).toEqual([
+      {
+        path: [],
+        code: "scope_required",
+        message: "API key is missing required scopes: cron",
+        params: { scopes: ["cron"] },
+      },
+    ]);
+  });
+
+  it("header を指定した場合はそのヘッダからキーを取得すること", async () => {
+    const { key, store } = await setup();
+    const auth = newAuthApiKey({ store, header: "X-Api-Key" });
+
+    const req = new Request("https://api.example.com", {
+      headers: { "X-Api-Key": key },
+    });
+    expect((await auth.auth(req))._unsafeUnwrap().id).toBe(USER.id);
+
+    // Authorization は見ない
+    const e = (await auth.auth(bearerRequest(key)))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+  });
+
+  it("取り消したキーは AuthError になること", async () => {
+    const { key, prefix, store } = await setup();
+    store.revoke(prefix);
+
+    const e = (
+      await newAuthApiKey({ store }).auth(bearerRequest(key))
+    )._unsafeUnwrapErr();
+    expect(e.message).toBe("Unknown API key");
+  });
+});
+
+describe("generateApiKey", () => {
+  it("nwu_<prefix>_<secret> の形式のキーを生成すること", async () => {
+    const { key, prefix } = (await generateApiKey())._unsafeUnwrap();
+
+    expect(key).toMatch(/^nwu_[0-9a-f]{12}_[A-Za-z0-9_-]{43}$/);
+    expect(key.slice(4, 16)).toBe(prefix);
+    expect((await generateApiKey())._unsafeUnwrap().key).not.toBe(key);
+  });
+
+  it("hash はキー全体の SHA-256 (hex) であること", async () => {
+    const { key, hash } = (await generateApiKey())._unsafeUnwrap();
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect((await hashApiKey(key))._unsafeUnwrap()).toBe(hash);
+    expect((await hashApiKey("abc"))._unsafeUnwrap()).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+});
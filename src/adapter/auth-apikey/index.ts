@@ -0,0 +1,182 @@
+import { err, ok, okAsync, Result, ResultAsync } from "neverthrow";
+import { AuthError, ForbiddenError, SystemError } from "../../error.js";
+import type { Auth, User } from "../../interface.js";
+import {
+  encodeBase64Url,
+  getTokenFromBearer,
+  getTokenFromHeader,
+} from "../util.js";
+
+// 保存する API キーの情報. キーそのものは保存せずハッシュのみを持つ
+export interface ApiKeyRecord {
+  prefix: string; // 検索用のプレフィックス
+  hash: string; // キー全体の SHA-256 (hex)
+  user: User; // キーの持ち主
+  scopes: string[]; // 許可されたスコープ
+  expiresAt?: Date; // 有効期限 (なければ無期限)
+}
+
+// API キーの保存先
+export interface ApiKeyStore {
+  findByPrefix: (
+    prefix: string,
+  ) => ResultAsync<ApiKeyRecord | null, SystemError>;
+}
+
+export interface AuthApiKeyConfig {
+  store: ApiKeyStore;
+  header?: string; // キーを受け取るヘッダ. 未指定なら Authorization: Bearer <key>
+  requiredScopes?: string[]; // すべて持っているキーのみ許可する
+}
+
+// 生成した API キー. key は利用者に一度だけ渡し, 保存には prefix と hash を使う
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  hash: string;
+}
+
+const KEY_PATTERN = /^nwu_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * API キー認証 adapter
+ *
+ * キーの形式は `nwu_<prefix>_<secret>`. prefix でキーを検索し,
+ * キー全体の SHA-256 を保存済みのハッシュと定数時間で比較する
+ *
+ * @example
+ * ```typescript
+ * const store = newApiKeyStoreMemory();
+ * const { key, prefix, hash } = await generateApiKey();
+ * store.add({ prefix, hash, user, scopes: ["cron"] });
+ *
+ * const auth = newAuthApiKey({ store, requiredScopes: ["cron"] });
+ * ```
+ */
+export const newAuthApiKey = (config: AuthApiKeyConfig): Auth => ({
+  auth: (req: Request) =>
+    okAsync(req)
+      // step.1 request からキーを取得
+      .andThen((r) =>
+        config.header
+          ? getTokenFromHeader(r, config.header)
+          : getTokenFromBearer(r),
+      )
+      .andThen(parseApiKey)
+      // step.2 prefix でキーを検索
+      .andThen(({ key, prefix }) =>
+        config.store
+          .findByPrefix(prefix)
+          .andThen((record) =>
+            record ? ok(record) : err(new AuthError("Unknown API key")),
+          )
+          // step.3 ハッシュを比較
+          .andThen((record) =>
+            hashApiKey(key).andThen((hash) =>
+              timingSafeEqual(hash, record.hash)
+                ? ok(record)
+                : err(new AuthError("Invalid API key")),
+            ),
+          ),
+      )
+      // step.4 有効期限とスコープを確認
+      .andThen(checkRecord(config.requiredScopes ?? [])),
+});
+
+/**
+ * 新しい API キーを生成する
+ */
+export const generateApiKey = (): ResultAsync<GeneratedApiKey, SystemError> => {
+  const prefix = Array.from(crypto.getRandomValues(new Uint8Array(6)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  const secret = encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const key = `nwu_${prefix}_${secret}`;
+  return hashApiKey(key).map((hash) => ({ key, prefix, hash }));
+};
+
+/**
+ * API キーの SHA-256 (hex) を計算する
+ */
+export const hashApiKey = (key: string): ResultAsync<string, SystemError> =>
+  ResultAsync.fromPromise(
+    crypto.subtle.digest("SHA-256", new TextEncoder().encode(key)),
+    (e) => new SystemError("Failed to hash API key", [], e as Error),
+  ).map((digest) =>
+    Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join(""),
+  );
+
+/**
+ * メモリ上の API キー保存先 (テスト / 開発用)
+ */
+export const newApiKeyStoreMemory = (
+  records: ApiKeyRecord[] = [],
+): ApiKeyStore & {
+  add: (record: ApiKeyRecord) => void;
+  revoke: (prefix: string) => void;
+} => {
+  const byPrefix = new Map(records.map((r) => [r.prefix, r]));
+  return {
+    findByPrefix: (prefix: string) => okAsync(byPrefix.get(prefix) ?? null),
+    add: (record: ApiKeyRecord) => {
+      byPrefix.set(record.prefix, record);
+    },
+    revoke: (prefix: string) => {
+      byPrefix.delete(prefix);
+    },
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const parseApiKey = (
+  key: string,
+): Result<{ key: string; prefix: string }, AuthError> => {
+  const m = key.match(KEY_PATTERN);
+  return m
+    ? ok({ key, prefix: m[1] })
+    : err(new AuthError("Malformed API key"));
+};
+
+const checkRecord =
+  (requiredScopes: string[]) =>
+  (record: ApiKeyRecord): Result<User, AuthError | ForbiddenError> => {
+    if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+      return err(new AuthError("API key has expired"));
+    }
+    const missing = requiredScopes.filter((s) => !record.scopes.includes(s));
+    if (missing.length > 0) {
+      const message = `API key is missing required scopes: ${missing.join(", ")}`;
+      // issues は lib/i18n で翻訳するため
+      return err(
+        new ForbiddenError(message, missing, undefined, [
+          {
+            path: [],
+            code: "scope_required",
+            message,
+            params: { scopes: missing },
+          },
+        ]),
+      );
+    }
+    // スコープは claims に入れて認可ポリシーから参照できるようにする
+    return ok({
+      ...record.user,
+      claims: { ...record.user.claims, scopes: record.scopes },
+    });
+  };
+
+// 文字列を定数時間で比較する (長さが異なる場合のみ即座に false)
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { AuthError, SystemError } from "../../error.js";
+import {
+  generateTestKey,
+  newTestIssuer,
+  type TestIssuer,
+  unsignedToken,
+} from "../auth-testkit/index.js";
+import { newAuthCloudflare } from "./index.js";
+
+const AUD = "test-aud";
+
+const headerRequest = (token: string) =>
+  new Request("https://app.example.com", {
+    headers: { "Cf-Access-Jwt-Assertion": token },
+  });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("newAuthCloudflare", () => {
+  let issuer: TestIssuer;
+
+  beforeEach(async () => {
+    issuer = await newTestIssuer({
+      issuer: "https://team.cloudflareaccess.com",
+      jwksPath: "/cdn-cgi/access/certs",
+    });
+  });
+
+  const newAuth = () =>
+    newAuthCloudflare(issuer.issuer, AUD, { fetch: issuer.fetch });
+
+  const authError = async (token: string) => {
+    const result = await newAuth().auth(headerRequest(token));
+    const e = result._unsafeUnwrapErr();
+    expect(e.code).toBe("Auth Error");
+    return e.message;
+  };
+
+  it("ヘッダのトークンからユーザーを取得できること", async () => {
+    const token = await issuer.sign({ aud: AUD });
+    const user = (await newAuth().auth(headerRequest(token)))._unsafeUnwrap();
+    expect(user).toMatchObject({
+      id: "test-user-id",
+      mail: "test@example.com",
+    });
+    expect(user.claims?.aud).toBe(AUD);
+  });
+
+  it("roles / groups クレームをユーザーに含めること", async () => {
+    const token = await issuer.sign({
+      aud: AUD,
+      roles: ["admin"],
+      groups: ["dev", "ops"],
+    });
+    const user = (await newAuth().auth(headerRequest(token)))._unsafeUnwrap();
+    expect(user.roles).toEqual(["admin"]);
+    expect(user.groups).toEqual(["dev", "ops"]);
+  });
+
+  it("Cookie のトークンからユーザーを取得できること", async () => {
+    const token = await issuer.sign({ aud: [AUD, "other"] });
+    const req = new Request("https://app.example.com", {
+      headers: { Cookie: `foo=bar; CF_Authorization=${token}` },
+    });
+    expect((await newAuth().auth(req)).isOk()).toBe(true);
+  });
+
+  it("トークンがない場合は AuthError になること", async () => {
+    const result = await newAuth().auth(new Request("https://app.example.com"));
+    expect(result._unsafeUnwrapErr().code).toBe("Auth Error");
+  });
+
+  it("JWT 形式でない場合は AuthError になること", async () => {
+    expect(await authError("not-a-jwt")).toBe("Invalid JWT format");
+  });
+
+  it("有効期限切れの場合は AuthError になること", async () => {
+    const token = await issuer.sign({ aud: AUD, exp: now() - 60 });
+    expect(await authError(token)).toBe("Token has expired");
+  });
+
+  it("有効開始前の場合は AuthError になること", async () => {
+    const token = await issuer.sign({ aud: AUD, nbf: now() + 60 });
+    expect(await authError(token)).toBe("Token is not yet valid");
+  });
+
+  it("発行者が異なる場合は AuthError になること", async () => {
+    const token = await issuer.sign({ aud: AUD, iss: "https://evil.test" });
+    expect(await authError(token)).toStartWith("Invalid issuer");
+  });
+
+  it("対象者が異なる場合は AuthError になること", async () => {
+    const token = await issuer.sign({ aud: "other" });
+    expect(await authError(token)).toStartWith("Invalid audience");
+  });
+
+  it("kid に一致する鍵がない場合は AuthError になること", async () => {
+    const token = await issuer.sign(
+      { aud: AUD },
+      { header: { kid: "unknown" } },
+    );
+    expect(await authError(token)).toBe(
+      "No matching key found for kid: unknown",
+    );
+  });
+
+  it("署名が一致しない場合は AuthError になること", async () => {
+    const other = await generateTestKey("RS256", issuer.keys[0].kid);
+    const token = await issuer.sign({ aud: AUD }, { key: other });
+    expect(await authError(token)).toBe("Invalid signature");
+  });
+
+  it("sub がない場合は AuthError になること", async () => {
+    const token = await issuer.sign({ aud: AUD, sub: undefined });
+    expect(await authError(token)).toBe(
+      "No user ID (sub claim) found in JWT payload",
+    );
+  });
+
+  it("email がない場合は AuthError になること", async () => {
+    const token = await issuer.sign({ aud: AUD, email: undefined });
+    expect(await authError(token)).toBe("No email found in JWT payload");
+  });
+
+  it("alg: none のトークンは AuthError になること", async () => {
+    const token = unsignedToken({ iss: issuer.issuer, aud: AUD });
+    expect(await authError(token)).toBe(
+      "Unsecured JWT (alg: none) is not allowed",
+    );
+  });
+
+  it("鍵と異なるアルゴリズムのトークンは AuthError になること", async () => {
+    const token = await issuer.sign({ aud: AUD }, { header: { alg: "ES256" } });
+    expect(await authError(token)).toStartWith("Algorithm mismatch");
+  });
+
+  it("JWKS をリクエスト間でキャッシュすること", async () => {
+    const auth = newAuth();
+    const token = await issuer.sign({ aud: AUD });
+    await Promise.all([
+      auth.auth(headerRequest(token)),
+      auth.auth(headerRequest(token)),
+    ]);
+    await auth.auth(headerRequest(token));
+    expect(issuer.fetchCount()).toBe(1);
+  });
+
+  it("鍵のローテーション後は JWKS を再取得すること", async () => {
+    const auth = newAuthCloudflare(issuer.issuer, AUD, {
+      fetch: issuer.fetch,
+      jwks: { refetchCooldown: 0 },
+    });
+    await auth.auth(headerRequest(await issuer.sign({ aud: AUD })));
+
+    await issuer.rotate("ES256");
+    const token = await issuer.sign({ aud: AUD });
+    expect((await auth.auth(headerRequest(token))).isOk()).toBe(true);
+    expect(issuer.fetchCount()).toBe(2);
+  });
+
+  it("JWKS が取得できない場合は AuthError ではなく SystemError になること", async () => {
+    issuer.setFailing(true);
+    const token = await issuer.sign({ aud: AUD });
+    const e = (await newAuth().auth(headerRequest(token)))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(SystemError);
+    expect(e).not.toBeInstanceOf(AuthError);
+    expect(e.message).toBe("Failed to fetch JWKS: Service Unavailable");
+  });
+
+  it("Cache-Control の max-age の間は JWKS を再取得しないこと", async () => {
+    issuer = await newTestIssuer({
+      issuer: "https://team.cloudflareaccess.com",
+      jwksPath: "/cdn-cgi/access/certs",
+      maxAge: 3600,
+    });
+    const auth = newAuthCloudflare(issuer.issuer, AUD, {
+      fetch: issuer.fetch,
+      jwks: { ttl: 0 }, // max-age が ttl より優先されること
+    });
+    const token = await issuer.sign({ aud: AUD });
+    await auth.auth(headerRequest(token));
+    await auth.auth(headerRequest(token));
+    expect(issuer.fetchCount()).toBe(1);
+  });
+
+  it("未知の kid でも refetchCooldown の間は再取得しないこと", async () => {
+    const auth = newAuth();
+    await auth.auth(headerRequest(await issuer.sign({ aud: AUD })));
+
+    const token = await issuer.sign(
+      { aud: AUD },
+      { header: { kid: "unknown" } },
+    );
+    const e = (await auth.auth(headerRequest(token)))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+    expect(issuer.fetchCount()).toBe(1);
+  });
+
+  it("staleIfError の期間を過ぎたキャッシュは使わず SystemError になること", async () => {
+    const auth = newAuthCloudflare(issuer.issuer, AUD, {
+      fetch: issuer.fetch,
+      jwks: { ttl: 0, staleIfError: 0 },
+    });
+    const token = await issuer.sign({ aud: AUD });
+    expect((await auth.auth(headerRequest(token))).isOk()).toBe(true);
+
+    issuer.setFailing(true);
+    const e = (await auth.auth(headerRequest(token)))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(SystemError);
+  });
+
+  it("JWKS から取り除かれた鍵のトークンは AuthError になること", async () => {
+    const auth = newAuthCloudflare(issuer.issuer, AUD, {
+      fetch: issuer.fetch,
+      jwks: { ttl: 0 },
+    });
+    const old = issuer.keys[0];
+    const token = await issuer.sign({ aud: AUD }, { key: old });
+    expect((await auth.auth(headerRequest(token))).isOk()).toBe(true);
+
+    await issuer.rotate();
+    issuer.revoke(old.kid);
+    const e = (await auth.auth(headerRequest(token)))._unsafeUnwrapErr();
+    expect(e.message).toBe(`No matching key found for kid: ${old.kid}`);
+  });
+
+  it("JWKS の再取得に失敗しても期限切れのキャッシュを使えること", async () => {
+    const auth = newAuthCloudflare(issuer.issuer, AUD, {
+      fetch: issuer.fetch,
+      jwks: { ttl: 0 },
+    });
+    const token = await issuer.sign({ aud: AUD });
+    await auth.auth(headerRequest(token));
+
+    issuer.setFailing(true);
+    expect((await auth.auth(headerRequest(token))).isOk()).toBe(true);
+    expect(issuer.fetchCount()).toBe(2);
+  });
+});
@@ -0,0 +1,199 @@
+import { err, ok, Result } from "neverthrow";
+import { AuthError } from "../../error.js";
+import type { JWK } from "./jwks.js";
+
+// サポートする JWS 署名アルゴリズム
+export type JwsAlgorithm =
+  | "RS256"
+  | "RS384"
+  | "RS512"
+  | "PS256"
+  | "PS384"
+  | "PS512"
+  | "ES256"
+  | "ES384"
+  | "ES512"
+  | "EdDSA"
+  | "HS256"
+  | "HS384"
+  | "HS512";
+
+// アルゴリズムごとの鍵の条件と WebCrypto のパラメータ
+interface AlgSpec {
+  kty: "RSA" | "EC" | "OKP" | "oct"; // 鍵に要求する kty
+  crv?: string; // 鍵に要求する crv (EC / OKP)
+  importParams: Algorithm | RsaHashedImportParams | EcKeyImportParams;
+  verifyParams: Algorithm | RsaPssParams | EcdsaParams;
+}
+
+const rsa = (hash: string): AlgSpec => ({
+  kty: "RSA",
+  importParams: { name: "RSASSA-PKCS1-v1_5", hash: { name: hash } },
+  verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+});
+
+const pss = (hash: string, saltLength: number): AlgSpec => ({
+  kty: "RSA",
+  importParams: { name: "RSA-PSS", hash: { name: hash } },
+  verifyParams: { name: "RSA-PSS", saltLength },
+});
+
+const ec = (crv: string, hash: string): AlgSpec => ({
+  kty: "EC",
+  crv,
+  importParams: { name: "ECDSA", namedCurve: crv },
+  verifyParams: { name: "ECDSA", hash: { name: hash } },
+});
+
+const hmac = (hash: string): AlgSpec => ({
+  kty: "oct",
+  importParams: { name: "HMAC", hash: { name: hash } },
+  verifyParams: { name: "HMAC" },
+});
+
+const ALGORITHMS: Record<JwsAlgorithm, AlgSpec> = {
+  RS256: rsa("SHA-256"),
+  RS384: rsa("SHA-384"),
+  RS512: rsa("SHA-512"),
+  PS256: pss("SHA-256", 32),
+  PS384: pss("SHA-384", 48),
+  PS512: pss("SHA-512", 64),
+  ES256: ec("P-256", "SHA-256"),
+  ES384: ec("P-384", "SHA-384"),
+  ES512: ec("P-521", "SHA-512"),
+  EdDSA: {
+    kty: "OKP",
+    crv: "Ed25519",
+    importParams: { name: "Ed25519" },
+    verifyParams: { name: "Ed25519" },
+  },
+  HS256: hmac("SHA-256"),
+  HS384: hmac("SHA-384"),
+  HS512: hmac("SHA-512"),
+};
+
+// 公開鍵 (JWKS) で検証するアルゴリズム
+export const ASYMMETRIC_ALGORITHMS: JwsAlgorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+  "EdDSA",
+];
+
+// 共有シークレットで検証するアルゴリズム
+export const SYMMETRIC_ALGORITHMS: JwsAlgorithm[] = ["HS256", "HS384", "HS512"];
+
+const isSupported = (alg: string): alg is JwsAlgorithm =>
+  Object.prototype.hasOwnProperty.call(ALGORITHMS, alg);
+
+export const isSymmetric = (alg: JwsAlgorithm): boolean =>
+  ALGORITHMS[alg].kty === "oct";
+
+/**
+ * トークンヘッダーの alg を検証する
+ *
+ * - alg がない / none の署名なしトークンは拒否する
+ * - 未サポートのアルゴリズムは拒否する
+ * - allow-list にないアルゴリズムは拒否する
+ */
+export const checkAlgorithm = (
+  alg: unknown,
+  allowed: readonly string[],
+): Result<JwsAlgorithm, AuthError> => {
+  if (typeof alg !== "string" || alg.length === 0) {
+    return err(new AuthError("No algorithm (alg header) found in JWT"));
+  }
+  if (alg.toLowerCase() === "none") {
+    return err(new AuthError("Unsecured JWT (alg: none) is not allowed"));
+  }
+  if (!isSupported(alg)) {
+    return err(new AuthError(`Unsupported algorithm: ${alg}`));
+  }
+  if (!allowed.includes(alg)) {
+    return err(new AuthError(`Algorithm not allowed: ${alg}`));
+  }
+  return ok(alg);
+};
+
+/**
+ * 鍵が alg で使えるかを検証する (alg を鍵に固定する)
+ *
+ * JWK に alg があれば一致していること, kty / crv がアルゴリズムの
+ * 要求と一致していること, use があれば sig であることを確認する
+ */
+export const checkKeyAlgorithm = (
+  jwk: JWK,
+  alg: JwsAlgorithm,
+): Result<JWK, AuthError> => {
+  const spec = ALGORITHMS[alg];
+  if (jwk.alg && jwk.alg !== alg) {
+    return err(
+      new AuthError(
+        `Algorithm mismatch: token uses ${alg}, key ${jwk.kid} is pinned to ${jwk.alg}`,
+      ),
+    );
+  }
+  if (jwk.kty !== spec.kty) {
+    return err(
+      new AuthError(
+        `Key type mismatch: ${alg} requires kty ${spec.kty}, got ${jwk.kty}`,
+      ),
+    );
+  }
+  if (spec.crv && jwk.crv !== spec.crv) {
+    return err(
+      new AuthError(
+        `Curve mismatch: ${alg} requires crv ${spec.crv}, got ${jwk.crv}`,
+      ),
+    );
+  }
+  if (jwk.use && jwk.use !== "sig") {
+    return err(
+      new AuthError(`Key ${jwk.kid} is not for signatures (use: ${jwk.use})`),
+    );
+  }
+  return ok(jwk);
+};
+
+// JWK から検証用の鍵を生成
+export const importJwk = (jwk: JWK, alg: JwsAlgorithm): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    "jwk",
+    // alg が付いていない JWK にも固定したアルゴリズムを明示する
+    { ...jwk, alg },
+    ALGORITHMS[alg].importParams,
+    false,
+    ["verify"],
+  );
+
+// 共有シークレットから HMAC 検証用の鍵を生成
+export const importSecret = (
+  secret: string | Uint8Array,
+  alg: JwsAlgorithm,
+): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    "raw",
+    typeof secret === "string"
+      ? new TextEncoder().encode(secret)
+      : new Uint8Array(secret),
+    ALGORITHMS[alg].importParams,
+    false,
+    ["verify"],
+  );
+
+// 鍵のインポートに使う WebCrypto のパラメータ
+export const importParams = (
+  alg: JwsAlgorithm,
+): Algorithm | RsaHashedImportParams | EcKeyImportParams =>
+  ALGORITHMS[alg].importParams;
+
+// 署名検証に使う WebCrypto のパラメータ
+export const verifyParams = (
+  alg: JwsAlgorithm,
+): Algorithm | RsaPssParams | EcdsaParams => ALGORITHMS[alg].verifyParams;
@@ -0,0 +1,366 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { err, ok } from "neverthrow";
+import { AuthError, SystemError } from "../../error.js";
+import type { Fetch } from "../../interface.js";
+import {
+  generateTestKey,
+  newTestIssuer,
+  signTokenWithSecret,
+  type TestIssuer,
+} from "../auth-testkit/index.js";
+import { encodeBase64Url } from "../util.js";
+import { type JwsAlgorithm, newAuthJwt } from "./index.js";
+
+const AUD = "https://api.example.com";
+
+const bearerRequest = (token: string) =>
+  new Request("https://app.example.com", {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const segment = (json: string) =>
+  encodeBase64Url(new TextEncoder().encode(json));
+
+describe("newAuthJwt", () => {
+  let issuer: TestIssuer;
+
+  beforeEach(async () => {
+    issuer = await newTestIssuer();
+  });
+
+  describe("トークンの取得元", () => {
+    it("デフォルトでは Authorization: Bearer からトークンを取得すること", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        audience: AUD,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+      });
+      const token = await issuer.sign({ aud: AUD });
+
+      const user = (await auth.auth(bearerRequest(token)))._unsafeUnwrap();
+      expect(user).toMatchObject({
+        id: "test-user-id",
+        mail: "test@example.com",
+      });
+      expect(user.claims?.aud).toBe(AUD);
+    });
+
+    it("Bearer 以外の Authorization ヘッダは AuthError にすること", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+      });
+      const token = await issuer.sign();
+      const req = new Request("https://app.example.com", {
+        headers: { Authorization: `Basic ${token}` },
+      });
+
+      const e = (await auth.auth(req))._unsafeUnwrapErr();
+      expect(e).toBeInstanceOf(AuthError);
+      expect(issuer.fetchCount()).toBe(0);
+    });
+
+    it("tokenSources を先頭から順に試すこと", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+        tokenSources: [
+          { type: "header", name: "X-Id-Token" },
+          { type: "cookie", name: "id_token" },
+        ],
+      });
+      const token = await issuer.sign();
+
+      const byHeader = new Request("https://app.example.com", {
+        headers: { "X-Id-Token": token },
+      });
+      expect((await auth.auth(byHeader)).isOk()).toBe(true);
+
+      const byCookie = new Request("https://app.example.com", {
+        headers: { Cookie: `theme=dark; id_token=${token}` },
+      });
+      expect((await auth.auth(byCookie)).isOk()).toBe(true);
+
+      // 設定していない Bearer は見ない
+      const e = (await auth.auth(bearerRequest(token)))._unsafeUnwrapErr();
+      expect(e).toBeInstanceOf(AuthError);
+    });
+  });
+
+  describe("OIDC discovery", () => {
+    it("jwksUrl がない場合は issuer の discovery ドキュメントから JWKS を取得すること", async () => {
+      const urls: string[] = [];
+      const fetch: Fetch = (input, init) => {
+        urls.push(input instanceof Request ? input.url : input.toString());
+        return issuer.fetch(input, init);
+      };
+      const auth = newAuthJwt({ issuer: issuer.issuer, fetch });
+
+      const result = await auth.auth(bearerRequest(await issuer.sign()));
+      expect(result.isOk()).toBe(true);
+      expect(urls).toEqual([issuer.discoveryUrl, issuer.jwksUrl]);
+    });
+
+    it("discovery ドキュメントの issuer が一致しない場合は SystemError にすること", async () => {
+      const fetch: Fetch = (input, init) => {
+        const url = input instanceof Request ? input.url : input.toString();
+        return url === issuer.discoveryUrl
+          ? Promise.resolve(
+              Response.json({
+                issuer: "https://evil.test",
+                jwks_uri: issuer.jwksUrl,
+              }),
+            )
+          : issuer.fetch(input, init);
+      };
+      const auth = newAuthJwt({ issuer: issuer.issuer, fetch });
+
+      const e = (
+        await auth.auth(bearerRequest(await issuer.sign()))
+      )._unsafeUnwrapErr();
+      expect(e).toBeInstanceOf(SystemError);
+      expect(e.message).toBe(
+        `Invalid OIDC issuer: expected ${issuer.issuer}, got https://evil.test`,
+      );
+    });
+  });
+
+  describe("クレームの検証と変換", () => {
+    it("header や payload がオブジェクトでないトークンは AuthError にすること", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+      });
+      const header = segment('{"alg":"RS256","kid":"k"}');
+      const payload = segment('{"sub":"u"}');
+
+      for (const token of [
+        `${segment("null")}.${segment("null")}.x`,
+        `${header}.${segment("null")}.x`,
+        `${segment("[]")}.${payload}.x`,
+        `${segment('{"alg":1}')}.${payload}.x`,
+        `${segment('{"alg":"RS256","kid":1}')}.${payload}.x`,
+      ]) {
+        const e = (await auth.auth(bearerRequest(token)))._unsafeUnwrapErr();
+        expect(e).toBeInstanceOf(AuthError);
+        expect(e.message).toBe("Invalid JWT format");
+      }
+      expect(issuer.fetchCount()).toBe(0);
+    });
+
+    it("issuer / audience が一致しないトークンは AuthError にすること", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        audience: AUD,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+      });
+
+      for (const claims of [
+        { aud: AUD, iss: "https://other.test" },
+        { aud: "https://other.example.com" },
+      ]) {
+        const e = (
+          await auth.auth(bearerRequest(await issuer.sign(claims)))
+        )._unsafeUnwrapErr();
+        expect(e).toBeInstanceOf(AuthError);
+      }
+    });
+
+    it("clockSkew の範囲内であれば期限切れのトークンを受け付けること", async () => {
+      const token = await issuer.sign({ exp: now() - 30 });
+      const config = {
+        issuer: issuer.issuer,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+      };
+
+      expect(
+        (await newAuthJwt(config).auth(bearerRequest(token))).isErr(),
+      ).toBe(true);
+      expect(
+        (
+          await newAuthJwt({ ...config, clockSkew: 60 }).auth(
+            bearerRequest(token),
+          )
+        ).isOk(),
+      ).toBe(true);
+    });
+
+    it("rolesClaim / groupsClaim のネストしたクレームを roles / groups にすること", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+        rolesClaim: "realm_access.roles",
+        groupsClaim: "org.groups",
+      });
+      const token = await issuer.sign({
+        realm_access: { roles: ["admin", 1] },
+        org: { groups: "dev" },
+      });
+
+      const user = (await auth.auth(bearerRequest(token)))._unsafeUnwrap();
+      expect(user.roles).toEqual(["admin"]);
+      expect(user.groups).toEqual(["dev"]);
+    });
+
+    it("claimsToUser でクレームの変換を差し替えられること", async () => {
+      const auth = newAuthJwt({
+        issuer: issuer.issuer,
+        jwksUrl: issuer.jwksUrl,
+        fetch: issuer.fetch,
+        claimsToUser: (payload) =>
+          typeof payload.preferred_username === "string"
+            ? ok({ id: payload.preferred_username, mail: "" })
+            : err(new AuthError("No preferred_username")),
+      });
+
+      const user = (
+        await auth.auth(
+          bearerRequest(await issuer.sign({ preferred_username: "taro" })),
+        )
+      )._unsafeUnwrap();
+      expect(user.id).toBe("taro");
+
+      const e = (
+        await auth.auth(bearerRequest(await issuer.sign()))
+      )._unsafeUnwrapErr();
+      expect(e.message).toBe("No preferred_username");
+    });
+  });
+
+  describe("署名アルゴリズム", () => {
+    const asymmetric: JwsAlgorithm[] = ["PS256", "ES384", "ES512", "EdDSA"];
+
+    for (const alg of asymmetric) {
+      it(`${alg} で署名されたトークンを検証できること`, async () => {
+        const iss = await newTestIssuer({ alg });
+        const auth = newAuthJwt({
+          issuer: iss.issuer,
+          jwksUrl: iss.jwksUrl,
+          fetch: iss.fetch,
+        });
+
+        const user = (
+          await auth.auth(bearerRequest(await iss.sign()))
+        )._unsafeUnwrap();
+        expect(user.id).toBe("test-user-id");
+
+        // 公開していない鍵で署名し, 公開鍵の kid を名乗る
+        const forged = await generateTestKey(alg, iss.keys[0].kid);
+        const e = (
+          await auth.auth(bearerRequest(await iss.sign({}, { key: forged })))
+        )._unsafeUnwrapErr();
+        expect(e).toBeInstanceOf(AuthError);
+        expect(e.message).toBe("Invalid signature");
+      });
+    }
+
+    describe("共有シークレット (HS*)", () => {
+      const SECRET = "test-shared-secret-0123456789abcdef";
+      const claims = () => ({
+        iss: "https://issuer.test",
+        sub: "test-user-id",
+        email: "test@example.com",
+        exp: now() + 3600,
+      });
+
+      it("secret で HS256 / HS384 / HS512 のトークンを検証できること", async () => {
+        const auth = newAuthJwt({
+          issuer: "https://issuer.test",
+          secret: SECRET,
+        });
+
+        for (const alg of ["HS256", "HS384", "HS512"] as const) {
+          const token = await signTokenWithSecret(SECRET, claims(), alg);
+          const user = (await auth.auth(bearerRequest(token)))._unsafeUnwrap();
+          expect(user.id).toBe("test-user-id");
+        }
+      });
+
+      it("secret が異なる場合は AuthError にすること", async () => {
+        const auth = newAuthJwt({
+          issuer: "https://issuer.test",
+          secret: SECRET,
+        });
+        const token = await signTokenWithSecret("wrong-secret", claims());
+
+        const e = (await auth.auth(bearerRequest(token)))._unsafeUnwrapErr();
+        expect(e).toBeInstanceOf(AuthError);
+        expect(e.message).toBe("Invalid signature");
+      });
+
+      it("secret がない場合は HS* を許可しても AuthError にすること", async () => {
+        const auth = newAuthJwt({
+          issuer: "https://issuer.test",
+          algorithms: ["RS256", "HS256"],
+          fetch: issuer.fetch,
+        });
+        const token = await signTokenWithSecret(SECRET, claims());
+
+        const e = (await auth.auth(bearerRequest(token)))._unsafeUnwrapErr();
+        expect(e.message).toBe("No shared secret configured for HS256");
+        expect(issuer.fetchCount()).toBe(0);
+      });
+    });
+
+    describe("allow-list", () => {
+      it("algorithms にないアルゴリズムのトークンは AuthError にすること", async () => {
+        const iss = await newTestIssuer({ alg: "PS256" });
+        const auth = newAuthJwt({
+          issuer: iss.issuer,
+          jwksUrl: iss.jwksUrl,
+          fetch: iss.fetch,
+          algorithms: ["RS256"],
+        });
+
+        const e = (
+          await auth.auth(bearerRequest(await iss.sign()))
+        )._unsafeUnwrapErr();
+        expect(e).toBeInstanceOf(AuthError);
+        expect(e.message).toBe("Algorithm not allowed: PS256");
+        expect(iss.fetchCount()).toBe(0);
+      });
+
+      it("secret を指定した場合は公開鍵方式のトークンを許可しないこと", async () => {
+        const auth = newAuthJwt({
+          issuer: issuer.issuer,
+          jwksUrl: issuer.jwksUrl,
+          fetch: issuer.fetch,
+          secret: "test-shared-secret",
+        });
+
+        const e = (
+          await auth.auth(bearerRequest(await issuer.sign()))
+        )._unsafeUnwrapErr();
+        expect(e.message).toBe("Algorithm not allowed: RS256");
+      });
+
+      it("JWK に固定されたアルゴリズムと異なる alg は AuthError にすること", async () => {
+        const iss = await newTestIssuer({ alg: "RS256" });
+        const auth = newAuthJwt({
+          issuer: iss.issuer,
+          jwksUrl: iss.jwksUrl,
+          fetch: iss.fetch,
+        });
+        const kid = iss.keys[0].kid;
+
+        // RS256 の鍵の kid で PS256 のトークンを送る
+        const ps = await generateTestKey("PS256", kid);
+        const e = (
+          await auth.auth(bearerRequest(await iss.sign({}, { key: ps })))
+        )._unsafeUnwrapErr();
+        expect(e.message).toBe(
+          `Algorithm mismatch: token uses PS256, key ${kid} is pinned to RS256`,
+        );
+      });
+    });
+  });
+});
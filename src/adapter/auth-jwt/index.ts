@@ -0,0 +1,260 @@
+import {
+  err,
+  errAsync,
+  fromPromise,
+  ok,
+  okAsync,
+  Result,
+  ResultAsync,
+} from "neverthrow";
+import { match } from "ts-pattern";
+import { AuthError, SystemError } from "../../error.js";
+import type { Auth, Fetch, User } from "../../interface.js";
+import {
+  getTokenFromBearer,
+  getTokenFromCookie,
+  getTokenFromHeader,
+} from "../util.js";
+import {
+  ASYMMETRIC_ALGORITHMS,
+  checkAlgorithm,
+  isSymmetric,
+  type JwsAlgorithm,
+  SYMMETRIC_ALGORITHMS,
+} from "./alg.js";
+import {
+  type JwksCacheOptions,
+  newJwksCache,
+  newOidcDiscovery,
+} from "./jwks.js";
+import {
+  decodeJWT,
+  type JWTPayload,
+  validatePayload,
+  verifySignature,
+} from "./jwt.js";
+import { type KeySource, newSecretKeySource } from "./keys.js";
+
+export type { JwsAlgorithm } from "./alg.js";
+export type { JwksCacheOptions } from "./jwks.js";
+export type { JWTHeader, JWTPayload } from "./jwt.js";
+
+// トークンの取得元
+export type TokenSource =
+  | { type: "bearer" } // Authorization: Bearer <token>
+  | { type: "header"; name: string } // 任意のヘッダ
+  | { type: "cookie"; name: string }; // Cookie
+
+export interface AuthJwtConfig {
+  issuer: string; // iss クレームの期待値
+  audience?: string; // aud クレームの期待値
+  jwksUrl?: string; // JWKS の URL
+  discoveryUrl?: string; // OIDC discovery ドキュメントの URL (jwksUrl がない場合に使用)
+  tokenSources?: TokenSource[]; // 先頭から順に試す (デフォルト: Bearer)
+  secret?: string | Uint8Array; // HS256 / HS384 / HS512 で使う共有シークレット
+  algorithms?: JwsAlgorithm[]; // 許可する署名アルゴリズム (デフォルト: secret があれば HS*, なければ公開鍵方式すべて)
+  clockSkew?: number; // exp / nbf で許容する時刻のずれ (秒)
+  claimsToUser?: (payload: JWTPayload) => Result<User, AuthError>; // クレームから User への変換
+  rolesClaim?: string; // デフォルトの変換で roles に使うクレーム (ドット区切りでネスト可. デフォルト: roles)
+  groupsClaim?: string; // デフォルトの変換で groups に使うクレーム (デフォルト: groups)
+  jwks?: JwksCacheOptions; // JWKS キャッシュの設定
+  fetch?: Fetch; // JWKS / OIDC discovery の取得に使う fetch (テスト用)
+}
+
+const DEFAULT_TOKEN_SOURCES: TokenSource[] = [{ type: "bearer" }];
+
+/**
+ * 汎用の JWT / OIDC 認証 adapter を作成する
+ *
+ * jwksUrl も discoveryUrl も指定されていない場合は,
+ * `${issuer}/.well-known/openid-configuration` から jwks_uri を解決する.
+ * HS* のトークンは JWKS ではなく secret で検証する
+ *
+ * @example
+ * ```typescript
+ * const auth = newAuthJwt({
+ *   issuer: "https://example.auth0.com/",
+ *   audience: "https://api.example.com",
+ *   algorithms: ["RS256"],
+ * });
+ * ```
+ */
+export const newAuthJwt = (config: AuthJwtConfig): Auth => {
+  // JWKS は adapter ごとにキャッシュし, リクエスト間で使い回す
+  const jwks = newJwksCache(
+    config.jwksUrl ??
+      newOidcDiscovery(
+        config.discoveryUrl ??
+          `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+        config.issuer,
+        config.fetch,
+      ),
+    { ...config.jwks, fetch: config.fetch ?? config.jwks?.fetch },
+  );
+  const secret = config.secret ? newSecretKeySource(config.secret) : undefined;
+  const keys: KeySource = {
+    getKey: (kid, alg) =>
+      isSymmetric(alg)
+        ? secret
+          ? secret.getKey(kid, alg)
+          : errAsync(new AuthError(`No shared secret configured for ${alg}`))
+        : jwks.getKey(kid, alg),
+  };
+  const algorithms =
+    config.algorithms ??
+    (config.secret ? SYMMETRIC_ALGORITHMS : ASYMMETRIC_ALGORITHMS);
+  const sources = config.tokenSources ?? DEFAULT_TOKEN_SOURCES;
+
+  return {
+    auth: (req: Request) =>
+      okAsync(req)
+        // step.1 request からトークンを取得
+        .andThen(getToken(sources))
+        // step.2 トークンを検証
+        .andThen(tokenVerify(keys, algorithms, config)),
+  };
+};
+
+export interface ClaimMapping {
+  rolesClaim?: string;
+  groupsClaim?: string;
+}
+
+/**
+ * クレーム変換を作成する
+ *
+ * sub を User ID に, email をメールアドレスに, rolesClaim / groupsClaim の
+ * 文字列配列を roles / groups にし, ペイロード全体を claims に入れる
+ *
+ * @example
+ * ```typescript
+ * // Keycloak のレルムロールを roles にする
+ * const claimsToUser = newClaimsToUser({ rolesClaim: "realm_access.roles" });
+ * ```
+ */
+export const newClaimsToUser =
+  (mapping: ClaimMapping = {}) =>
+  (payload: JWTPayload): Result<User, AuthError> => {
+    const userId = typeof payload.sub === "string" ? payload.sub : null;
+    if (!userId) {
+      return err(new AuthError("No user ID (sub claim) found in JWT payload"));
+    }
+
+    const userEmail = typeof payload.email === "string" ? payload.email : null;
+    if (!userEmail) {
+      return err(new AuthError("No email found in JWT payload"));
+    }
+
+    return ok({
+      id: userId,
+      mail: userEmail,
+      roles: toStringList(claimAt(payload, mapping.rolesClaim ?? "roles")),
+      groups: toStringList(claimAt(payload, mapping.groupsClaim ?? "groups")),
+      claims: payload,
+    });
+  };
+
+/**
+ * デフォルトのクレーム変換
+ */
+export const defaultClaimsToUser = newClaimsToUser();
+
+/**
+ * JWT トークンを検証してユーザー情報を取得する
+ *
+ * 検証フロー:
+ * 1. JWT をデコードしてヘッダーとペイロードを取得
+ * 2. ヘッダーの alg がサポート済みかつ許可されたアルゴリズムか確認
+ * 3. ペイロードを検証（有効期限、発行者、対象者など）
+ * 4. JWT ヘッダーの kid に一致し, alg で使える鍵を取得
+ * 5. 鍵で署名を検証
+ * 6. ペイロードをクレーム変換して User を返す
+ */
+const tokenVerify =
+  (keys: KeySource, algorithms: readonly string[], config: AuthJwtConfig) =>
+  (token: string): ResultAsync<User, AuthError | SystemError> =>
+    decodeJWT(token)
+      // アルゴリズムを検証
+      .andThen((decoded) =>
+        checkAlgorithm(decoded.header.alg, algorithms).map((alg) => ({
+          ...decoded,
+          alg,
+        })),
+      )
+      // ペイロードを検証
+      .andThen((decoded) =>
+        validatePayload(
+          decoded.payload,
+          config.issuer,
+          config.audience,
+          config.clockSkew,
+        ).map(() => decoded),
+      )
+      .asyncAndThen(({ header, payload, alg }) =>
+        // kid と alg に一致する鍵を取得
+        keys
+          .getKey(header.kid, alg)
+          // 署名を検証
+          .andThen((key) =>
+            fromPromise(
+              verifySignature(token, key, alg),
+              (e) =>
+                new AuthError(
+                  `Failed to verify signature: ${(e as Error).message}`,
+                ),
+            ),
+          )
+          .andThen((isValid) =>
+            isValid ? ok(payload) : err(new AuthError("Invalid signature")),
+          ),
+      )
+      .andThen(
+        config.claimsToUser ??
+          newClaimsToUser({
+            rolesClaim: config.rolesClaim,
+            groupsClaim: config.groupsClaim,
+          }),
+      );
+
+// ドット区切りのパスでクレームを取得
+const claimAt = (payload: JWTPayload, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (v, key) =>
+        v && typeof v === "object"
+          ? (v as Record<string, unknown>)[key]
+          : undefined,
+      payload,
+    );
+
+// 文字列の配列 (または単一の文字列) を string[] にする
+const toStringList = (v: unknown): string[] | undefined =>
+  Array.isArray(v)
+    ? v.filter((x): x is string => typeof x === "string")
+    : typeof v === "string"
+      ? [v]
+      : undefined;
+
+/*
+ * リクエストからトークンを取得
+ * sources を先頭から順に試し, 最初に取得できた値を返す
+ * どれでも取得できなければ最後のエラーを返す
+ */
+const getToken =
+  (sources: TokenSource[]) =>
+  (req: Request): Result<string, AuthError> =>
+    sources.reduce<Result<string, AuthError>>(
+      (acc, source) => acc.orElse(() => getTokenFrom(req, source)),
+      err(new AuthError("No token source configured")),
+    );
+
+const getTokenFrom = (
+  req: Request,
+  source: TokenSource,
+): Result<string, AuthError> =>
+  match(source)
+    .with({ type: "bearer" }, () => getTokenFromBearer(req))
+    .with({ type: "header" }, ({ name }) => getTokenFromHeader(req, name))
+    .with({ type: "cookie" }, ({ name }) => getTokenFromCookie(req, name))
+    .exhaustive();
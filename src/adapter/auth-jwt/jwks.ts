@@ -0,0 +1,263 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
+import { AuthError, SystemError } from "../../error.js";
+import type { Fetch } from "../../interface.js";
+import { checkKeyAlgorithm, importJwk, type JwsAlgorithm } from "./alg.js";
+import type { KeySource } from "./keys.js";
+
+// JWKS型定義
+export interface JWK {
+  kty: string;
+  kid: string;
+  use?: string;
+  alg?: string;
+  n?: string; // RSA modulus
+  e?: string; // RSA exponent
+  x?: string; // EC x coordinate
+  y?: string; // EC y coordinate
+  crv?: string; // EC / OKP curve
+  k?: string; // oct (共有シークレット) key value
+}
+
+export interface JWKS {
+  keys: JWK[];
+}
+
+export interface JwksCacheOptions {
+  ttl?: number; // Cache-Control に max-age がない場合のキャッシュ有効期間 (秒)
+  staleIfError?: number; // 再取得に失敗したとき, 期限切れのキャッシュを使い続けられる期間 (秒)
+  refetchCooldown?: number; // kid 不一致による再取得の最小間隔 (秒)
+  fetch?: Fetch; // JWKS の取得に使う fetch
+}
+
+// JWKS の URL を解決する関数 (OIDC discovery など)
+export type JwksUrlResolver = () => ResultAsync<string, SystemError>;
+
+export interface JwksCache extends KeySource {}
+
+const DEFAULT_TTL = 600;
+const DEFAULT_STALE_IF_ERROR = 3600;
+const DEFAULT_REFETCH_COOLDOWN = 30;
+
+// キャッシュエントリ
+interface Entry {
+  jwks: JWKS;
+  fetchedAt: number; // 取得時刻 (ms)
+  expiresAt: number; // 有効期限 (ms)
+}
+
+/**
+ * JWKS キャッシュを作成する
+ *
+ * - Cache-Control の max-age (なければ ttl) の間, 取得した JWKS を使い回す
+ * - kid が見つからない場合は鍵のローテーションとみなして 1 度だけ再取得する
+ * - インポート済みの CryptoKey を kid と alg の組ごとに保持する
+ * - 同時に発生した取得要求は 1 回の fetch にまとめる
+ * - 取得に失敗した場合, staleIfError の期間内であれば期限切れのキャッシュを使う
+ */
+export const newJwksCache = (
+  jwksUrl: string | JwksUrlResolver,
+  opts: JwksCacheOptions = {},
+): JwksCache => {
+  const resolveUrl: JwksUrlResolver =
+    typeof jwksUrl === "string" ? () => okAsync(jwksUrl) : jwksUrl;
+  const ttl = opts.ttl ?? DEFAULT_TTL;
+  const staleIfError = opts.staleIfError ?? DEFAULT_STALE_IF_ERROR;
+  const refetchCooldown = opts.refetchCooldown ?? DEFAULT_REFETCH_COOLDOWN;
+  const fetchFn = opts.fetch ?? defaultFetch;
+
+  let entry: Entry | undefined;
+  let inflight: Promise<Result<Entry, SystemError>> | undefined;
+  const keys = new Map<string, { kid: string; key: Promise<CryptoKey> }>();
+
+  const setEntry = (jwks: JWKS, maxAge?: number): Entry => {
+    const now = Date.now();
+    entry = { jwks, fetchedAt: now, expiresAt: now + (maxAge ?? ttl) * 1000 };
+    // JWKS から消えた kid の公開鍵は破棄する
+    for (const [cacheKey, { kid }] of keys) {
+      if (!jwks.keys.some((key) => key.kid === kid)) {
+        keys.delete(cacheKey);
+      }
+    }
+    return entry;
+  };
+
+  // JWKS を取得する. 取得中の要求があればその結果を共有する
+  const refresh = (): ResultAsync<Entry, SystemError> => {
+    if (!inflight) {
+      inflight = Promise.resolve(
+        resolveUrl()
+          .andThen((url) => fetchJWKS(fetchFn, url))
+          .map(({ jwks, maxAge }) => setEntry(jwks, maxAge)),
+      ).finally(() => {
+        inflight = undefined;
+      });
+    }
+    return new ResultAsync(inflight);
+  };
+
+  // 有効なキャッシュがあればそれを, なければ再取得した JWKS を返す
+  const load = (force: boolean): ResultAsync<Entry, SystemError> => {
+    const cached = entry;
+    if (cached && !force && Date.now() < cached.expiresAt) {
+      return okAsync(cached);
+    }
+    return refresh().orElse((e) =>
+      cached && Date.now() < cached.expiresAt + staleIfError * 1000
+        ? okAsync(cached)
+        : errAsync(e),
+    );
+  };
+
+  const findJwk = (kid?: string): ResultAsync<JWK, AuthError | SystemError> =>
+    load(false).andThen((current) => {
+      const jwk = current.jwks.keys.find((key) => key.kid === kid);
+      if (jwk) {
+        return okAsync(jwk);
+      }
+      // 直近に取得したばかりであれば再取得しない
+      if (Date.now() - current.fetchedAt < refetchCooldown * 1000) {
+        return errAsync(noMatchingKey(kid));
+      }
+      return load(true).andThen((refreshed) => {
+        const rotated = refreshed.jwks.keys.find((key) => key.kid === kid);
+        return rotated ? ok(rotated) : err(noMatchingKey(kid));
+      });
+    });
+
+  const importKey =
+    (alg: JwsAlgorithm) =>
+    (jwk: JWK): ResultAsync<CryptoKey, AuthError> => {
+      const cacheKey = `${jwk.kid}:${alg}`;
+      let cached = keys.get(cacheKey);
+      if (!cached) {
+        cached = { kid: jwk.kid, key: importJwk(jwk, alg) };
+        keys.set(cacheKey, cached);
+      }
+      return ResultAsync.fromPromise(cached.key, (e) => {
+        keys.delete(cacheKey); // 失敗した鍵はキャッシュしない
+        return new AuthError(
+          `Failed to import public key: ${(e as Error).message}`,
+        );
+      });
+    };
+
+  return {
+    getKey: (kid: string | undefined, alg: JwsAlgorithm) =>
+      findJwk(kid)
+        // 鍵の alg / kty / crv がトークンの alg と一致するか確認する
+        .andThen((jwk) => checkKeyAlgorithm(jwk, alg))
+        .andThen(importKey(alg)),
+  };
+};
+
+/**
+ * OIDC discovery ドキュメントから jwks_uri を解決する
+ *
+ * 取得に成功した jwks_uri は以降使い回す. ドキュメントの issuer が
+ * 期待値と異なる場合は SystemError を返す
+ */
+export const newOidcDiscovery = (
+  discoveryUrl: string,
+  issuer: string,
+  fetchFn: Fetch = defaultFetch,
+): JwksUrlResolver => {
+  let jwksUri: string | undefined;
+  let inflight: Promise<Result<string, SystemError>> | undefined;
+
+  return () => {
+    if (jwksUri) {
+      return okAsync(jwksUri);
+    }
+    if (!inflight) {
+      inflight = Promise.resolve(
+        fetchJson<OidcDiscovery>(
+          fetchFn,
+          discoveryUrl,
+          "OIDC discovery document",
+        )
+          .andThen(({ body }) =>
+            body.issuer !== issuer
+              ? err(
+                  new SystemError(
+                    `Invalid OIDC issuer: expected ${issuer}, got ${body.issuer}`,
+                    [discoveryUrl],
+                  ),
+                )
+              : typeof body.jwks_uri !== "string"
+                ? err(
+                    new SystemError("No jwks_uri found in OIDC discovery", [
+                      discoveryUrl,
+                    ]),
+                  )
+                : ok(body.jwks_uri),
+          )
+          .map((uri) => {
+            jwksUri = uri;
+            return uri;
+          }),
+      ).finally(() => {
+        inflight = undefined;
+      });
+    }
+    return new ResultAsync(inflight);
+  };
+};
+
+interface OidcDiscovery {
+  issuer?: string;
+  jwks_uri?: string;
+}
+
+const noMatchingKey = (kid?: string) =>
+  new AuthError(`No matching key found for kid: ${kid}`);
+
+// 呼び出し時点のグローバル fetch を使う
+const defaultFetch: Fetch = (input, init) => fetch(input, init);
+
+// JSON を取得
+const fetchJson = <T>(
+  fetchFn: Fetch,
+  url: string,
+  label: string,
+): ResultAsync<{ body: T; res: Response }, SystemError> =>
+  ResultAsync.fromPromise(
+    fetchFn(url),
+    (e) => new SystemError(`Failed to fetch ${label}`, [url], e as Error),
+  )
+    .andThen((res) =>
+      res.ok
+        ? okAsync(res)
+        : errAsync(
+            new SystemError(`Failed to fetch ${label}: ${res.statusText}`, [
+              url,
+            ]),
+          ),
+    )
+    .andThen((res) =>
+      ResultAsync.fromPromise(
+        res.json() as Promise<T>,
+        (e) => new SystemError(`Invalid ${label} response`, [url], e as Error),
+      ).map((body) => ({ body, res })),
+    );
+
+// JWKS を取得
+const fetchJWKS = (
+  fetchFn: Fetch,
+  jwksUrl: string,
+): ResultAsync<{ jwks: JWKS; maxAge?: number }, SystemError> =>
+  fetchJson<JWKS>(fetchFn, jwksUrl, "JWKS").andThen(({ body, res }) =>
+    Array.isArray(body?.keys)
+      ? ok({
+          jwks: body,
+          maxAge: parseMaxAge(res.headers.get("Cache-Control")),
+        })
+      : err(new SystemError("Invalid JWKS response", [jwksUrl])),
+  );
+
+// Cache-Control ヘッダから max-age (秒) を取得
+const parseMaxAge = (cacheControl: string | null): number | undefined => {
+  if (!cacheControl) return undefined;
+  if (/(^|,)\s*(no-store|no-cache)\s*(,|$)/i.test(cacheControl)) return 0;
+  const m = cacheControl.match(/(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/i);
+  return m ? Number(m[1]) : undefined;
+};
@@ -0,0 +1,145 @@
+import { err, ok, Result } from "neverthrow";
+import { AuthError } from "../../error.js";
+import { type JwsAlgorithm, verifyParams } from "./alg.js";
+
+export interface JWTHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface JWTPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  [key: string]: unknown;
+}
+
+export interface DecodedJWT {
+  header: JWTHeader;
+  payload: JWTPayload;
+  signature: string;
+}
+
+// Base64URL デコード
+export const base64UrlDecode = (str: string): string => {
+  // Base64URL を Base64 に変換
+  let base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+  // パディングを追加
+  while (base64.length % 4) {
+    base64 += "=";
+  }
+  return atob(base64);
+};
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isJWTHeader = (v: unknown): v is JWTHeader =>
+  isPlainObject(v) &&
+  typeof v.alg === "string" &&
+  (v.kid === undefined || typeof v.kid === "string");
+
+// JWT をデコード
+export const decodeJWT = (token: string): Result<DecodedJWT, AuthError> => {
+  try {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return err(new AuthError("Invalid JWT format"));
+    }
+
+    const [headerB64, payloadB64, signatureB64] = parts;
+    const header: unknown = JSON.parse(base64UrlDecode(headerB64));
+    const payload: unknown = JSON.parse(base64UrlDecode(payloadB64));
+
+    // null や配列など, クライアントが送った JSON をそのまま信用しない
+    if (!isJWTHeader(header) || !isPlainObject(payload)) {
+      return err(new AuthError("Invalid JWT format"));
+    }
+
+    return ok({ header, payload, signature: signatureB64 });
+  } catch (e) {
+    return err(new AuthError(`Failed to decode JWT: ${(e as Error).message}`));
+  }
+};
+
+// JWT 署名を検証
+export const verifySignature = async (
+  token: string,
+  key: CryptoKey,
+  algorithm: JwsAlgorithm,
+): Promise<boolean> => {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return false;
+  }
+
+  const [headerB64, payloadB64, signatureB64] = parts;
+  const data = `${headerB64}.${payloadB64}`;
+  const signature = Uint8Array.from(base64UrlDecode(signatureB64), (c) =>
+    c.charCodeAt(0),
+  );
+
+  const encoder = new TextEncoder();
+  const dataBuffer = encoder.encode(data);
+
+  return await crypto.subtle.verify(
+    verifyParams(algorithm),
+    key,
+    signature,
+    dataBuffer,
+  );
+};
+
+/**
+ * JWT ペイロードを検証
+ *
+ * @param clockSkew - exp / nbf の判定で許容する時刻のずれ (秒)
+ */
+export const validatePayload = (
+  payload: JWTPayload,
+  issuer: string,
+  audience?: string,
+  clockSkew = 0,
+): Result<void, AuthError> => {
+  const now = Math.floor(Date.now() / 1000);
+
+  // exp (有効期限) チェック
+  if (payload.exp && payload.exp + clockSkew < now) {
+    return err(new AuthError("Token has expired"));
+  }
+
+  // nbf (有効開始時刻) チェック
+  if (payload.nbf && payload.nbf - clockSkew > now) {
+    return err(new AuthError("Token is not yet valid"));
+  }
+
+  // iss (発行者) チェック
+  if (payload.iss !== issuer) {
+    return err(
+      new AuthError(`Invalid issuer: expected ${issuer}, got ${payload.iss}`),
+    );
+  }
+
+  // aud (対象者) チェック
+  if (audience) {
+    const audiences = Array.isArray(payload.aud)
+      ? payload.aud
+      : payload.aud
+        ? [payload.aud]
+        : [];
+    if (!audiences.includes(audience)) {
+      return err(
+        new AuthError(
+          `Invalid audience: expected ${audience}, got ${payload.aud}`,
+        ),
+      );
+    }
+  }
+
+  return ok(undefined);
+};
@@ -0,0 +1,42 @@
+import { errAsync, ResultAsync } from "neverthrow";
+import { AuthError, SystemError } from "../../error.js";
+import { importSecret, isSymmetric, type JwsAlgorithm } from "./alg.js";
+
+// 署名検証に使う鍵の取得元
+export interface KeySource {
+  getKey: (
+    kid: string | undefined,
+    alg: JwsAlgorithm,
+  ) => ResultAsync<CryptoKey, AuthError | SystemError>;
+}
+
+/**
+ * 共有シークレットによる鍵の取得元 (HS256 / HS384 / HS512)
+ *
+ * kid は見ない. インポート済みの鍵は alg ごとに保持する
+ */
+export const newSecretKeySource = (secret: string | Uint8Array): KeySource => {
+  const keys = new Map<JwsAlgorithm, Promise<CryptoKey>>();
+
+  return {
+    getKey: (_kid: string | undefined, alg: JwsAlgorithm) => {
+      if (!isSymmetric(alg)) {
+        return errAsync(
+          new AuthError(`Algorithm ${alg} cannot be used with a shared secret`),
+        );
+      }
+      let key = keys.get(alg);
+      if (!key) {
+        key = importSecret(secret, alg);
+        keys.set(alg, key);
+      }
+      return ResultAsync.fromPromise(
+        key,
+        (e) =>
+          new SystemError(
+            `Failed to import shared secret: ${(e as Error).message}`,
+          ),
+      );
+    },
+  };
+};
@@ -8,6 +8,7 @@ const AUTH_COOKIE_KEY = "Mock_Authorization";
 
 export const newAuthMock = (): Auth => ({
   auth: (req: Request) => okAsync(req).andThen(getToken).map(tokenToUser),
+  mock: true,
 });
 
 const getToken = (req: Request): Result<string, AuthError> =>
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "bun:test";
+import { newAuthSession } from "./index.js";
+
+const USER = { id: "user-1", mail: "user@example.com" };
+const KEY_A = { kid: "a", secret: "secret-a" };
+const KEY_B = { kid: "b", secret: "secret-b" };
+
+// Set-Cookie の値からリクエストを作る
+const requestWith = (setCookie: string) =>
+  new Request("https://app.example.com", {
+    headers: { Cookie: setCookie.split(";")[0] },
+  });
+
+const cookieValue = (setCookie: string) =>
+  decodeURIComponent(setCookie.split(";")[0].split("=")[1]);
+
+describe("newAuthSession", () => {
+  for (const encrypt of [false, true]) {
+    describe(encrypt ? "暗号化" : "署名", () => {
+      it("発行したセッションからユーザーを取得できること", async () => {
+        const sessions = newAuthSession({ keys: [KEY_A], encrypt });
+        const setCookie = (await sessions.issue(USER))._unsafeUnwrap();
+        const user = (
+          await sessions.auth(requestWith(setCookie))
+        )._unsafeUnwrap();
+        expect(user).toEqual(USER);
+      });
+
+      it("改ざんされたセッションは AuthError になること", async () => {
+        const sessions = newAuthSession({ keys: [KEY_A], encrypt });
+        const value = cookieValue((await sessions.issue(USER))._unsafeUnwrap());
+        const parts = value.split(".");
+        parts[2] =
+          parts[2].slice(0, -2) + (parts[2].endsWith("AA") ? "BB" : "AA");
+        const req = new Request("https://app.example.com", {
+          headers: { Cookie: `nwu_session=${parts.join(".")}` },
+        });
+        const e = (await sessions.auth(req))._unsafeUnwrapErr();
+        expect(e.code).toBe("Auth Error");
+        expect(e.message).toBe("Session cookie has been tampered with");
+      });
+
+      it("期限切れのセッションは AuthError になること", async () => {
+        const sessions = newAuthSession({ keys: [KEY_A], encrypt, maxAge: -1 });
+        const setCookie = (await sessions.issue(USER))._unsafeUnwrap();
+        const e = (
+          await sessions.auth(requestWith(setCookie))
+        )._unsafeUnwrapErr();
+        expect(e.message).toBe("Session has expired");
+      });
+
+      it("未知の鍵のセッションは AuthError になること", async () => {
+        const issuer = newAuthSession({ keys: [KEY_B], encrypt });
+        const verifier = newAuthSession({ keys: [KEY_A], encrypt });
+        const setCookie = (await issuer.issue(USER))._unsafeUnwrap();
+        const e = (
+          await verifier.auth(requestWith(setCookie))
+        )._unsafeUnwrapErr();
+        expect(e.message).toBe("Unknown session key: b");
+      });
+    });
+  }
+
+  it("不正な形式のセッションは AuthError になること", async () => {
+    const sessions = newAuthSession({ keys: [KEY_A] });
+    const req = new Request("https://app.example.com", {
+      headers: { Cookie: "nwu_session=garbage" },
+    });
+    const e = (await sessions.auth(req))._unsafeUnwrapErr();
+    expect(e.message).toBe("Malformed session cookie");
+  });
+
+  it('kid に "." を含む鍵ではセッションを発行しないこと', async () => {
+    const sessions = newAuthSession({
+      keys: [{ kid: "2025.01", secret: "secret" }],
+    });
+    const e = (await sessions.issue(USER))._unsafeUnwrapErr();
+    expect(e.code).toBe("System Error");
+    expect(e.message).toBe(
+      'Invalid session key id (must not contain "."): 2025.01',
+    );
+  });
+
+  it("古い鍵のセッションは最新の鍵で発行し直すこと", async () => {
+    const old = newAuthSession({ keys: [KEY_A] });
+    const rotated = newAuthSession({ keys: [KEY_B, KEY_A] });
+    const setCookie = (await old.issue(USER))._unsafeUnwrap();
+
+    const session = (
+      await rotated.session(requestWith(setCookie))
+    )._unsafeUnwrap();
+    expect(session.user).toEqual(USER);
+    expect(cookieValue(session.setCookie ?? "")).toStartWith("s.b.");
+  });
+
+  it("ローリング更新の時期を過ぎたセッションを更新すること", async () => {
+    const sessions = newAuthSession({
+      keys: [KEY_A],
+      rolling: true,
+      maxAge: 60,
+    });
+    const fresh = (await sessions.issue(USER))._unsafeUnwrap();
+    expect(
+      (await sessions.session(requestWith(fresh)))._unsafeUnwrap().setCookie,
+    ).toBeUndefined();
+
+    const short = newAuthSession({ keys: [KEY_A], maxAge: 20 });
+    const old = (await short.issue(USER))._unsafeUnwrap();
+    const renewed = (await sessions.session(requestWith(old)))._unsafeUnwrap();
+    expect(renewed.setCookie).toContain("Max-Age=60");
+  });
+
+  it("Set-Cookie の属性を出力できること", async () => {
+    const sessions = newAuthSession({
+      keys: [KEY_A],
+      cookie: { sameSite: "Strict", domain: "example.com" },
+    });
+    const setCookie = (await sessions.issue(USER))._unsafeUnwrap();
+    expect(setCookie).toContain("HttpOnly");
+    expect(setCookie).toContain("Secure");
+    expect(setCookie).toContain("SameSite=Strict");
+    expect(setCookie).toContain("Domain=example.com");
+    expect(sessions.clear()).toStartWith("nwu_session=; Max-Age=0");
+  });
+});
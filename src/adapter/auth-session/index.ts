@@ -0,0 +1,312 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from "neverthrow";
+import { AuthError, SystemError } from "../../error.js";
+import type { Auth, User } from "../../interface.js";
+import {
+  type CookieOptions,
+  decodeBase64Url,
+  encodeBase64Url,
+  getTokenFromCookie,
+  serializeCookie,
+} from "../util.js";
+
+// セッション鍵. kid は Cookie に埋め込まれ, 検証時の鍵の選択に使う ("." は使えない)
+export interface SessionKey {
+  kid: string;
+  secret: string;
+}
+
+export interface AuthSessionConfig {
+  keys: SessionKey[]; // 先頭が最新 (発行に使う). 2 番目以降は検証のみに使う
+  encrypt?: boolean; // true: AES-GCM で暗号化, false: HMAC-SHA256 で署名 (デフォルト)
+  cookieName?: string; // デフォルト: nwu_session
+  maxAge?: number; // セッションの有効期間 (秒). デフォルト: 7 日
+  rolling?: boolean; // true の場合, 有効期間の半分を過ぎたセッションを更新する
+  cookie?: Omit<CookieOptions, "maxAge" | "expires">; // Set-Cookie の属性
+}
+
+// セッションの検証結果. setCookie があればレスポンスに付与する
+export interface Session {
+  user: User;
+  expiresAt: Date;
+  setCookie?: string;
+}
+
+export interface SessionAuth extends Auth {
+  issue: (user: User) => ResultAsync<string, SystemError>; // Set-Cookie の値を返す
+  session: (req: Request) => ResultAsync<Session, AuthError | SystemError>;
+  clear: () => string; // セッションを削除する Set-Cookie の値を返す
+}
+
+const DEFAULT_COOKIE_NAME = "nwu_session";
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60;
+const DEFAULT_COOKIE: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: "Lax",
+  path: "/",
+};
+
+// Cookie の中身
+interface SessionPayload {
+  user: User;
+  iat: number; // 発行時刻 (秒)
+  exp: number; // 有効期限 (秒)
+}
+
+/**
+ * 署名 / 暗号化 Cookie によるセッション認証 adapter
+ *
+ * Cookie の形式:
+ * - 署名: `s.<kid>.<payload>.<HMAC-SHA256>`
+ * - 暗号化: `e.<kid>.<iv>.<AES-GCM ciphertext>`
+ *
+ * 最新でない鍵で発行されたセッションは, 検証時に最新の鍵で発行し直す
+ *
+ * @example
+ * ```typescript
+ * const sessions = newAuthSession({
+ *   keys: [{ kid: "2025-01", secret: env.SESSION_SECRET }],
+ *   rolling: true,
+ * });
+ *
+ * // ログイン時
+ * const setCookie = await sessions.issue(user);
+ *
+ * // リクエスト時
+ * const session = await sessions.session(req);
+ * ```
+ */
+export const newAuthSession = (config: AuthSessionConfig): SessionAuth => {
+  const mode: Mode = config.encrypt ? "e" : "s";
+  const cookieName = config.cookieName ?? DEFAULT_COOKIE_NAME;
+  const maxAge = config.maxAge ?? DEFAULT_MAX_AGE;
+  const cookie = { ...DEFAULT_COOKIE, ...config.cookie };
+  const keys = newKeyRing(config.keys, mode);
+
+  const issue = (user: User): ResultAsync<string, SystemError> => {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: SessionPayload = { user, iat: now, exp: now + maxAge };
+    const current = config.keys[0];
+    if (!current) {
+      return errAsync(new SystemError("No session key configured"));
+    }
+    return keys
+      .get(current.kid)
+      .andThen((key) => seal(mode, current.kid, key, payload))
+      .map((value) =>
+        serializeCookie(cookieName, value, { ...cookie, maxAge }),
+      );
+  };
+
+  const session = (
+    req: Request,
+  ): ResultAsync<Session, AuthError | SystemError> =>
+    okAsync(req)
+      .andThen((r) => getTokenFromCookie(r, cookieName))
+      .andThen(parseToken(mode))
+      .andThen((token) =>
+        config.keys.some((k) => k.kid === token.kid)
+          ? keys.get(token.kid).andThen((key) => open(token, key))
+          : errAsync(new AuthError(`Unknown session key: ${token.kid}`)),
+      )
+      .andThen(checkExpiry)
+      .andThen(({ payload, kid }) => {
+        const session = {
+          user: payload.user,
+          expiresAt: new Date(payload.exp * 1000),
+        };
+        const now = Math.floor(Date.now() / 1000);
+        // 古い鍵で発行されたか, ローリング更新の時期であれば発行し直す
+        const rotated = kid !== config.keys[0]?.kid;
+        const renew = config.rolling && payload.exp - now < maxAge / 2;
+        if (!rotated && !renew) {
+          return okAsync<Session, SystemError>(session);
+        }
+        return issue(payload.user).map((setCookie) => ({
+          user: payload.user,
+          expiresAt: new Date((now + maxAge) * 1000),
+          setCookie,
+        }));
+      });
+
+  return {
+    auth: (req: Request) => session(req).map(({ user }) => user),
+    issue,
+    session,
+    clear: () => serializeCookie(cookieName, "", { ...cookie, maxAge: 0 }),
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+type Mode = "s" | "e";
+
+interface ParsedToken {
+  mode: Mode;
+  kid: string;
+  parts: [string, string]; // 署名: [payload, mac] / 暗号化: [iv, ciphertext]
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const parseToken =
+  (mode: Mode) =>
+  (value: string): Result<ParsedToken, AuthError> => {
+    const parts = value.split(".");
+    if (parts.length !== 4 || parts[0] !== mode || !parts[1]) {
+      return err(new AuthError("Malformed session cookie"));
+    }
+    return ok({ mode, kid: parts[1], parts: [parts[2], parts[3]] });
+  };
+
+// kid ごとに導出済みの鍵を保持する
+const newKeyRing = (sessionKeys: SessionKey[], mode: Mode) => {
+  const cache = new Map<string, Promise<CryptoKey>>();
+  return {
+    get: (kid: string): ResultAsync<CryptoKey, SystemError> => {
+      const sessionKey = sessionKeys.find((k) => k.kid === kid);
+      if (!sessionKey) {
+        return errAsync(new SystemError(`Unknown session key: ${kid}`));
+      }
+      // kid は Cookie の区切り文字 "." を含められない
+      if (kid.includes(".")) {
+        return errAsync(
+          new SystemError(
+            `Invalid session key id (must not contain "."): ${kid}`,
+          ),
+        );
+      }
+      let key = cache.get(kid);
+      if (!key) {
+        key = deriveKey(sessionKey.secret, mode);
+        cache.set(kid, key);
+      }
+      return ResultAsync.fromPromise(
+        key,
+        (e) =>
+          new SystemError("Failed to derive session key", [kid], e as Error),
+      );
+    },
+  };
+};
+
+// シークレットから HKDF で署名 / 暗号化用の鍵を導出する
+const deriveKey = async (secret: string, mode: Mode): Promise<CryptoKey> => {
+  const base = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  const hkdf = {
+    name: "HKDF",
+    hash: "SHA-256",
+    salt: new Uint8Array(0),
+    info: encoder.encode(`nwu-session-${mode}`),
+  };
+  return mode === "e"
+    ? crypto.subtle.deriveKey(
+        hkdf,
+        base,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+      )
+    : crypto.subtle.deriveKey(
+        hkdf,
+        base,
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"],
+      );
+};
+
+// ペイロードを署名 / 暗号化して Cookie の値にする
+const seal = (
+  mode: Mode,
+  kid: string,
+  key: CryptoKey,
+  payload: SessionPayload,
+): ResultAsync<string, SystemError> => {
+  const data = encoder.encode(JSON.stringify(payload));
+  const head = `${mode}.${kid}`;
+  const sealed = async () => {
+    if (mode === "e") {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: encoder.encode(head) },
+        key,
+        data,
+      );
+      return `${head}.${encodeBase64Url(iv)}.${encodeBase64Url(new Uint8Array(ciphertext))}`;
+    }
+    const body = `${head}.${encodeBase64Url(data)}`;
+    const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+    return `${body}.${encodeBase64Url(new Uint8Array(mac))}`;
+  };
+  return ResultAsync.fromPromise(
+    sealed(),
+    (e) => new SystemError("Failed to seal session", [], e as Error),
+  );
+};
+
+// Cookie の値を検証 / 復号してペイロードを取り出す
+const open = (
+  token: ParsedToken,
+  key: CryptoKey,
+): ResultAsync<{ payload: SessionPayload; kid: string }, AuthError> => {
+  const head = `${token.mode}.${token.kid}`;
+  const [first, second] = token.parts;
+  const decoded = Result.combine([
+    decodeBase64Url(first),
+    decodeBase64Url(second),
+  ]);
+  if (decoded.isErr()) {
+    return errAsync(new AuthError("Malformed session cookie"));
+  }
+  const [a, b] = decoded.value;
+
+  const opened: ResultAsync<Uint8Array, AuthError> =
+    token.mode === "e"
+      ? ResultAsync.fromPromise(
+          crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: a, additionalData: encoder.encode(head) },
+            key,
+            b,
+          ),
+          () => new AuthError("Session cookie has been tampered with"),
+        ).map((plain) => new Uint8Array(plain))
+      : ResultAsync.fromPromise(
+          crypto.subtle.verify(
+            "HMAC",
+            key,
+            b,
+            encoder.encode(`${head}.${first}`),
+          ),
+          () => new AuthError("Session cookie has been tampered with"),
+        ).andThen((valid) =>
+          valid
+            ? ok(a)
+            : err(new AuthError("Session cookie has been tampered with")),
+        );
+
+  return opened.andThen((plain) => {
+    try {
+      const payload = JSON.parse(decoder.decode(plain)) as SessionPayload;
+      return ok({ payload, kid: token.kid });
+    } catch {
+      return err(new AuthError("Malformed session cookie"));
+    }
+  });
+};
+
+const checkExpiry = <T extends { payload: SessionPayload }>(
+  v: T,
+): Result<T, AuthError> =>
+  typeof v.payload.exp !== "number" ||
+  v.payload.exp <= Math.floor(Date.now() / 1000)
+    ? err(new AuthError("Session has expired"))
+    : ok(v);
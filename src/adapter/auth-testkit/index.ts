@@ -0,0 +1,238 @@
+/**
+ * 署名付きトークンのテストキット
+ *
+ * WebCrypto で鍵ペアを生成して JWT に署名し, JWKS / OIDC discovery を
+ * 返す fetch を提供する. ネットワークなしで newAuthJwt / newAuthCloudflare の
+ * 検証経路をテストできる
+ *
+ * @example
+ * ```typescript
+ * const issuer = await newTestIssuer({
+ *   issuer: "https://team.cloudflareaccess.com",
+ *   jwksPath: "/cdn-cgi/access/certs",
+ * });
+ * const auth = newAuthCloudflare(issuer.issuer, "aud", { fetch: issuer.fetch });
+ *
+ * const exp = Math.floor(Date.now() / 1000) - 60;
+ * const token = await issuer.sign({ aud: "aud", exp }); // 期限切れ
+ * const req = new Request("https://example.com", {
+ *   headers: { "Cf-Access-Jwt-Assertion": token },
+ * });
+ * const result = await auth.auth(req); // Err(AuthError: Token has expired)
+ * ```
+ */
+import type { Fetch } from "../../interface.js";
+import {
+  importParams,
+  type JwsAlgorithm,
+  verifyParams,
+} from "../auth-jwt/alg.js";
+import type { JWK } from "../auth-jwt/jwks.js";
+import type { JWTHeader, JWTPayload } from "../auth-jwt/jwt.js";
+import { encodeBase64Url } from "../util.js";
+
+// テスト用の署名鍵
+export interface TestKey {
+  kid: string;
+  alg: JwsAlgorithm;
+  publicJwk: JWK; // JWKS で公開する鍵
+  privateKey: CryptoKey; // 署名に使う鍵
+}
+
+export interface SignOptions {
+  key?: TestKey; // 署名に使う鍵 (デフォルト: 最新の鍵)
+  header?: Partial<JWTHeader> & Record<string, unknown>; // ヘッダーの上書き (kid / alg の改ざんなど)
+}
+
+export interface TestIssuer {
+  issuer: string;
+  jwksUrl: string;
+  discoveryUrl: string;
+  keys: TestKey[]; // JWKS で公開している鍵
+  fetch: Fetch; // JWKS / OIDC discovery を返す fetch
+  fetchCount: () => number; // fetch が呼ばれた回数
+  setFailing: (failing: boolean) => void; // true の間は 503 を返す
+  sign: (claims?: JWTPayload, opts?: SignOptions) => Promise<string>;
+  rotate: (alg?: JwsAlgorithm) => Promise<TestKey>; // 新しい鍵を追加する
+  revoke: (kid: string) => void; // 鍵を JWKS から取り除く
+}
+
+export interface TestIssuerOptions {
+  issuer?: string; // デフォルト: https://issuer.test
+  jwksPath?: string; // デフォルト: /.well-known/jwks.json
+  alg?: JwsAlgorithm; // 最初の鍵のアルゴリズム (デフォルト: RS256)
+  maxAge?: number; // JWKS レスポンスの Cache-Control max-age (秒)
+  subject?: string; // デフォルトの sub クレーム
+  email?: string; // デフォルトの email クレーム
+}
+
+/**
+ * テスト用の鍵ペアを生成する (HS* は対象外)
+ */
+export const generateTestKey = async (
+  alg: JwsAlgorithm = "RS256",
+  kid: string = crypto.randomUUID(),
+): Promise<TestKey> => {
+  const { publicKey, privateKey } = (await crypto.subtle.generateKey(
+    generateParams(alg),
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const { kty, n, e, x, y, crv } = (await crypto.subtle.exportKey(
+    "jwk",
+    publicKey,
+  )) as JsonWebKey;
+  return {
+    kid,
+    alg,
+    publicJwk: { kty: kty as string, kid, alg, use: "sig", n, e, x, y, crv },
+    privateKey,
+  };
+};
+
+/**
+ * JWT に署名する
+ */
+export const signToken = async (
+  key: TestKey,
+  claims: JWTPayload,
+  header: Partial<JWTHeader> & Record<string, unknown> = {},
+): Promise<string> => {
+  const data = `${encodeJson({ alg: key.alg, kid: key.kid, typ: "JWT", ...header })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    verifyParams(key.alg),
+    key.privateKey,
+    new TextEncoder().encode(data),
+  );
+  return `${data}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * HS256 / HS384 / HS512 で JWT に署名する
+ */
+export const signTokenWithSecret = async (
+  secret: string,
+  claims: JWTPayload,
+  alg: JwsAlgorithm = "HS256",
+  header: Partial<JWTHeader> & Record<string, unknown> = {},
+): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    importParams(alg),
+    false,
+    ["sign"],
+  );
+  const data = `${encodeJson({ alg, typ: "JWT", ...header })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    verifyParams(alg),
+    key,
+    new TextEncoder().encode(data),
+  );
+  return `${data}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * 署名なしトークン (alg: none) を作る
+ */
+export const unsignedToken = (claims: JWTPayload): string =>
+  `${encodeJson({ alg: "none", typ: "JWT" })}.${encodeJson(claims)}.`;
+
+/**
+ * テスト用の発行者を作成する
+ *
+ * sign() はデフォルトで iss / sub / email / iat / exp (1 時間後) を埋める.
+ * claims で上書きでき, undefined を渡したクレームは含めない
+ */
+export const newTestIssuer = async (
+  opts: TestIssuerOptions = {},
+): Promise<TestIssuer> => {
+  const issuer = opts.issuer ?? "https://issuer.test";
+  const base = issuer.replace(/\/$/, "");
+  const jwksUrl = `${base}${opts.jwksPath ?? "/.well-known/jwks.json"}`;
+  const discoveryUrl = `${base}/.well-known/openid-configuration`;
+  const keys: TestKey[] = [await generateTestKey(opts.alg)];
+  let count = 0;
+  let failing = false;
+
+  const fetchFn: Fetch = async (input) => {
+    count++;
+    const url = input instanceof Request ? input.url : input.toString();
+    if (failing) {
+      return new Response("Service Unavailable", {
+        status: 503,
+        statusText: "Service Unavailable",
+      });
+    }
+    if (url === jwksUrl) {
+      return Response.json(
+        { keys: keys.map((key) => key.publicJwk) },
+        opts.maxAge !== undefined
+          ? { headers: { "Cache-Control": `max-age=${opts.maxAge}` } }
+          : undefined,
+      );
+    }
+    if (url === discoveryUrl) {
+      return Response.json({ issuer, jwks_uri: jwksUrl });
+    }
+    return new Response("Not Found", { status: 404, statusText: "Not Found" });
+  };
+
+  return {
+    issuer,
+    jwksUrl,
+    discoveryUrl,
+    keys,
+    fetch: fetchFn,
+    fetchCount: () => count,
+    setFailing: (f) => {
+      failing = f;
+    },
+    sign: (claims = {}, signOpts = {}) => {
+      const now = Math.floor(Date.now() / 1000);
+      return signToken(
+        signOpts.key ?? keys[keys.length - 1],
+        {
+          iss: issuer,
+          sub: opts.subject ?? "test-user-id",
+          email: opts.email ?? "test@example.com",
+          iat: now,
+          exp: now + 3600,
+          ...claims,
+        },
+        signOpts.header,
+      );
+    },
+    rotate: async (alg) => {
+      const key = await generateTestKey(alg ?? opts.alg);
+      keys.push(key);
+      return key;
+    },
+    revoke: (kid) => {
+      const i = keys.findIndex((key) => key.kid === kid);
+      if (i >= 0) keys.splice(i, 1);
+    },
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const generateParams = (
+  alg: JwsAlgorithm,
+): Algorithm | RsaHashedKeyGenParams | EcKeyGenParams => {
+  const params = importParams(alg);
+  if (params.name === "HMAC") {
+    throw new Error(`Use signTokenWithSecret for ${alg}`);
+  }
+  return params.name.startsWith("RSA")
+    ? {
+        ...(params as RsaHashedImportParams),
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+      }
+    : params;
+};
+
+const encodeJson = (v: unknown): string =>
+  encodeBase64Url(new TextEncoder().encode(JSON.stringify(v)));
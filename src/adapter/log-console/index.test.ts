@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { SystemError } from "../../error.js";
+import { newLogConsole } from "./index.js";
+
+// 色のエスケープシーケンスを取り除く
+const plain = (s: string) => s.replace(/\u001b\[[\d;]*m/g, "");
+
+describe("newLogConsole", () => {
+  let lines: string[];
+  let spy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    lines = [];
+    spy = spyOn(console, "log").mockImplementation((s: string) => {
+      lines.push(plain(s));
+    });
+  });
+
+  afterEach(() => {
+    spy.mockRestore();
+  });
+
+  it("fields がなければレベルとメッセージだけを出力すること", () => {
+    newLogConsole("info").info("started");
+
+    expect(lines).toEqual(["[ INFO] started"]);
+  });
+
+  it("fields をメッセージの後ろに揃えて key=value で出力すること", () => {
+    newLogConsole("info").warn("slow", { duration: 12, path: "/users" });
+
+    expect(lines).toEqual([
+      `[ WARN] ${"slow".padEnd(32)} duration=12 path=/users`,
+    ]);
+  });
+
+  it("child の fields を先に出力し, 呼び出し時の fields で上書きすること", () => {
+    const log = newLogConsole("debug").child({ requestId: "req-1", step: "a" });
+    log.child({ userId: "u1" }).debug("nested");
+    log.info("override", { step: "b" });
+
+    expect(lines).toEqual([
+      `[DEBUG] ${"nested".padEnd(32)} requestId=req-1 step=a userId=u1`,
+      `[ INFO] ${"override".padEnd(32)} requestId=req-1 step=b`,
+    ]);
+  });
+
+  it("空白や記号を含む文字列とオブジェクトは JSON で表記すること", () => {
+    newLogConsole("info").info("values", {
+      name: "Taro Yamada",
+      quote: 'a"b',
+      empty: "",
+      tags: ["a", "b"],
+      ok: true,
+    });
+
+    expect(lines[0]).toEndWith(
+      'name="Taro Yamada" quote="a\\"b" empty="" tags=["a","b"] ok=true',
+    );
+  });
+
+  it("エラーはコード, メッセージ, details, cause を続けて出力すること", () => {
+    const e = new SystemError("db down", ["host: db"], new Error("ECONNRESET"));
+    newLogConsole("info").error("failed", { userId: "u1" }, e);
+
+    expect(lines[0]).toBe(`[ERROR] ${"failed".padEnd(32)} userId=u1`);
+    expect(lines).toContain("  ▷ ErrCode: System Error");
+    expect(lines).toContain("  ▷ Message: db down");
+    expect(lines).toContain('  ▷ Details: ["host: db"]');
+    expect(lines).toContain("  ▷ Caused by: Error: ECONNRESET");
+  });
+});
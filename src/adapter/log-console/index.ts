@@ -1,53 +1,84 @@
-import { AppError, Logger, LogLevel } from "../../index.js";
+import {
+  LogFields,
+  Logger,
+  LogLevel,
+  LogThreshold,
+  SerializedError,
+} from "../../index.js";
+import {
+  type LogLevels,
+  newLogger,
+  newRedactor,
+  type RedactOptions,
+} from "../../lib/log/index.js";
 
-const thanLevel = (l1: LogLevel, l2: LogLevel): boolean => {
-  const levels: LogLevel[] = ["debug", "info", "warn", "error"];
-  return levels.indexOf(l1) <= levels.indexOf(l2);
-};
-
-export const newLogConsole = (level: LogLevel): Logger => ({
-  debug: (s: string, e?: AppError) => {
-    if (thanLevel(level, "debug")) {
-      print(`${gray("[DEBUG]")} ${gray(s)}`);
-      if (e) {
-        printError(e);
-      }
-    }
-  },
-
-  info: (s: string, e?: AppError) => {
-    if (thanLevel(level, "info")) {
-      print(`${blue("[ INFO]")} ${white(s)}`);
-      if (e) {
-        printError(e);
-      }
-    }
-  },
-
-  warn: (s: string, e?: AppError) => {
-    if (thanLevel(level, "warn")) {
-      print(`${yellow("[ WARN]")} ${white(s)}`);
-      if (e) {
-        printError(e);
-      }
-    }
-  },
+export interface LogConsoleOptions {
+  redact?: RedactOptions | false; // false の場合, マスクしない
+}
 
-  error: (s: string, e?: AppError) => {
-    print(`${red("[ERROR]")} ${red(s)}`);
+/**
+ * 人が読みやすい形式でコンソールに出力するロガー
+ *
+ * fields はメッセージの後ろに key=value で揃えて出力する.
+ * メッセージ, fields, エラーに含まれる秘密情報はマスクする (lib/log の newRedactor を参照)
+ *
+ * @example
+ * ```typescript
+ * const log = newLogConsole("debug").child({ requestId });
+ * log.info("user created", { userId, duration: 12 });
+ * // [ INFO] user created                   requestId=... userId=... duration=12
+ * ```
+ */
+export const newLogConsole = (
+  level: LogThreshold | LogLevels,
+  opts: LogConsoleOptions = {},
+): Logger => {
+  const r = newRedactor(
+    opts.redact === false ? { defaults: false } : opts.redact,
+  );
+  return newLogger(level, (l, s, fields, e) => {
+    const { label, text } = STYLES[l];
+    print(
+      `${label} ${withFields(text, r.text(s), r.value(fields) as LogFields)}`,
+    );
     if (e) {
-      printError(e);
+      printError(r.error(e));
     }
-  },
-});
+  });
+};
+
+// メッセージの後ろに fields を揃えて付ける
+const MESSAGE_WIDTH = 32;
+
+const withFields = (
+  text: (s: string) => string,
+  s: string,
+  fields: LogFields,
+): string => {
+  const pairs = Object.entries(fields).map(
+    ([k, v]) => `${k}=${formatValue(v)}`,
+  );
+  return pairs.length === 0
+    ? text(s)
+    : `${text(s.padEnd(MESSAGE_WIDTH))} ${gray(pairs.join(" "))}`;
+};
+
+// 空白を含む文字列やオブジェクトは JSON で表記する
+const formatValue = (v: unknown): string =>
+  typeof v === "string" && /^[^\s"=]+$/.test(v) ? v : JSON.stringify(v);
 
 const print = (s: string) => console.log(`${s}`);
-const printError = (e: AppError) => {
+const printError = (e: SerializedError) => {
   print(white(`  ▷ ErrCode: ${e.code}`));
   print(white(`  ▷ Message: ${e.message}`));
   print(white(`  ▷ Details: ${JSON.stringify(e.details)}`));
   print(white("  ▷ Stack:"));
   print(gray(`${e.stack}`));
+  // cause をたどって表示する
+  for (let c = e.cause; c; c = c.cause) {
+    print(white(`  ▷ Caused by: ${c.name}: ${c.message}`));
+    if (c.stack) print(gray(c.stack));
+  }
 };
 
 const color = (col: string) => (s: string) => `\u001b[${col}m${s}\u001b[0m`; // 補助関数
@@ -61,3 +92,11 @@ const blue = color("38;5;4");
 // const cyan = color("38;5;6");
 const white = color("38;5;7");
 const gray = color("38;5;244");
+
+const STYLES: Record<LogLevel, { label: string; text: (s: string) => string }> =
+  {
+    debug: { label: gray("[DEBUG]"), text: gray },
+    info: { label: blue("[ INFO]"), text: white },
+    warn: { label: yellow("[ WARN]"), text: white },
+    error: { label: red("[ERROR]"), text: red },
+  };
@@ -0,0 +1,228 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+  spyOn,
+} from "bun:test";
+import { SystemError } from "../../error.js";
+import type { Fetch } from "../../interface.js";
+import { newLogHttp } from "./index.js";
+
+const URL = "https://logs.example.com/ingest";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// 待機中のタイマーを登録させてから ms 進める
+const tick = async (ms: number) => {
+  await flush();
+  jest.advanceTimersByTime(ms);
+  await flush();
+};
+
+// 再試行の待機を進めながら p の完了を待つ
+const settle = async <T>(p: Promise<T>, ms: number): Promise<T> => {
+  let done = false;
+  void p.then(() => {
+    done = true;
+  });
+  for (let i = 0; i < 100 && !done; i++) {
+    await tick(ms);
+  }
+  return p;
+};
+
+// 受け取ったバッチを記録する送信先
+const newServer = (statuses: number[] = []) => {
+  const batches: Record<string, unknown>[][] = [];
+  const requests: Request[] = [];
+  const fetch: Fetch = async (input, init) => {
+    const req = new Request(input, init);
+    requests.push(req.clone());
+    const status = statuses.shift() ?? 200;
+    if (status === 200) {
+      const stream =
+        req.headers.get("Content-Encoding") === "gzip"
+          ? req.body?.pipeThrough(new DecompressionStream("gzip"))
+          : req.body;
+      const text = await new Response(stream).text();
+      batches.push(
+        text
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line)),
+      );
+    }
+    return new Response(null, { status });
+  };
+  return { fetch, batches, requests };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("newLogHttp", () => {
+  it("flush で gzip した NDJSON を POST すること", async () => {
+    const server = newServer();
+    const logger = newLogHttp("info", {
+      url: URL,
+      headers: { Authorization: "Bearer log-token" },
+      fetch: server.fetch,
+    });
+
+    logger.debug("skipped");
+    logger.info("hello", { userId: "u1" });
+    logger.child({ requestId: "req-1" }).warn("slow");
+    await logger.flush();
+
+    expect(server.batches).toHaveLength(1);
+    expect(server.batches[0]).toMatchObject([
+      { level: "info", message: "hello", userId: "u1" },
+      { level: "warn", message: "slow", requestId: "req-1" },
+    ]);
+    const req = server.requests[0];
+    expect(req.method).toBe("POST");
+    expect(req.headers.get("Content-Type")).toBe("application/x-ndjson");
+    expect(req.headers.get("Authorization")).toBe("Bearer log-token");
+  });
+
+  it("batchSize に達したら送ること", async () => {
+    const server = newServer();
+    const logger = newLogHttp("info", {
+      url: URL,
+      batchSize: 2,
+      gzip: false,
+      fetch: server.fetch,
+    });
+
+    logger.info("1");
+    logger.info("2");
+    logger.info("3");
+    await logger.flush();
+
+    expect(server.batches.map((b) => b.map((x) => x.message))).toEqual([
+      ["1", "2"],
+      ["3"],
+    ]);
+  });
+
+  it("flushInterval が経ったら送ること", async () => {
+    const server = newServer();
+    const logger = newLogHttp("info", {
+      url: URL,
+      flushInterval: 100,
+      gzip: false,
+      fetch: server.fetch,
+    });
+
+    logger.info("later");
+    await tick(50);
+    expect(server.requests).toHaveLength(0);
+
+    await tick(100);
+    expect(server.requests).toHaveLength(1);
+    await logger.flush();
+    expect(server.batches[0]).toMatchObject([{ message: "later" }]);
+  });
+
+  it("バッファがあふれたら古いものから捨てること", async () => {
+    const server = newServer();
+    const logger = newLogHttp("info", {
+      url: URL,
+      maxBuffer: 2,
+      fetch: server.fetch,
+    });
+
+    logger.info("1");
+    logger.info("2");
+    logger.info("3");
+    await logger.flush();
+
+    expect(server.batches[0]).toMatchObject([
+      { level: "warn", dropped: 1 },
+      { message: "2" },
+      { message: "3" },
+    ]);
+  });
+
+  it("失敗したら再試行し, それでも失敗したら onError を呼ぶこと", async () => {
+    const server = newServer([500, 503, 500, 500]);
+    const errors: string[] = [];
+    const logger = newLogHttp("info", {
+      url: URL,
+      retries: 1,
+      backoff: 100,
+      fetch: server.fetch,
+      onError: (e) => errors.push(e.message),
+    });
+
+    logger.info("first");
+    await settle(logger.flush(), 100); // 500, 503 で失敗
+    logger.info("second");
+    await settle(logger.flush(), 100); // 500, 500 で失敗
+    logger.info("third");
+    await logger.flush();
+
+    expect(server.requests).toHaveLength(5);
+    expect(errors).toEqual([
+      "Failed to ship 1 log entries",
+      "Failed to ship 1 log entries",
+    ]);
+    expect(server.batches[0]).toMatchObject([{ message: "third" }]);
+  });
+
+  it("圧縮に失敗した場合も onError を呼ぶこと", async () => {
+    const server = newServer();
+    const errors: SystemError[] = [];
+    const logger = newLogHttp("info", {
+      url: URL,
+      fetch: server.fetch,
+      onError: (e) => errors.push(e),
+    });
+    const original = globalThis.CompressionStream;
+    globalThis.CompressionStream = class {
+      constructor() {
+        throw new TypeError("CompressionStream is not supported");
+      }
+    } as unknown as typeof CompressionStream;
+
+    try {
+      for (let i = 0; i < 5; i++) {
+        logger.info(`${i}`);
+      }
+      await logger.flush();
+    } finally {
+      globalThis.CompressionStream = original;
+    }
+
+    expect(server.requests).toHaveLength(0);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe("Failed to ship 5 log entries");
+    expect(errors[0].details).toEqual([URL]);
+    expect(errors[0].cause).toBeInstanceOf(SystemError);
+  });
+
+  it("onError がない場合は送信の失敗をコンソールに出さないこと", async () => {
+    const server = newServer([500]);
+    const spy = spyOn(console, "error");
+    const logger = newLogHttp("info", {
+      url: URL,
+      retries: 0,
+      fetch: server.fetch,
+    });
+
+    logger.info("lost");
+    await logger.flush();
+
+    expect(server.requests).toHaveLength(1);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
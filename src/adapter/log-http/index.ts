@@ -0,0 +1,217 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { type Fetch, Logger, LogThreshold, SystemError } from "../../index.js";
+import {
+  type LogLevels,
+  newLogger,
+  newRedactor,
+  type RedactOptions,
+} from "../../lib/log/index.js";
+import { jsonLogFormat } from "../log-json/index.js";
+
+export interface LogHttpConfig {
+  url: string; // ログの送信先
+  headers?: HeadersInit; // 追加のリクエストヘッダ (認証など)
+  batchSize?: number; // この件数がたまったら送る. デフォルト 100
+  flushInterval?: number; // 最初のログからこの時間 (ミリ秒) が経ったら送る. 0 なら時間では送らない. デフォルト 5000
+  maxBuffer?: number; // 送信待ちの上限. 超えたら古いものから捨てる. デフォルト 1000
+  retries?: number; // 送信の再試行回数. デフォルト 3
+  backoff?: number; // 最初の再試行までの時間 (ミリ秒). 再試行ごとに 2 倍にする. デフォルト 500
+  gzip?: boolean; // gzip で圧縮して送る. デフォルト true
+  redact?: RedactOptions | false; // false の場合, マスクしない
+  fetch?: Fetch;
+  onError?: (e: SystemError) => void; // 再試行しても送れなかった場合に呼ぶ. デフォルトでは何もしない
+}
+
+export interface HttpLogger extends Logger {
+  flush: () => Promise<void>; // 送信待ちのログをすべて送る (失敗しても reject しない)
+}
+
+/**
+ * ログをまとめて HTTP で送るロガー
+ *
+ * ログは JSON (newLogJson と同じ形式) の NDJSON として POST する.
+ * Workers ではレスポンスを返す前に flush を ctx.waitUntil に渡す
+ *
+ * @example
+ * ```typescript
+ * const logger = newLogHttp("info", {
+ *   url: "https://logs.example.com/ingest",
+ *   headers: { Authorization: `Bearer ${env.LOG_TOKEN}` },
+ * });
+ * logger.info("request handled", { status: 200 });
+ * ctx.waitUntil(logger.flush());
+ * ```
+ */
+export const newLogHttp = (
+  level: LogThreshold | LogLevels,
+  config: LogHttpConfig,
+): HttpLogger => {
+  const r = newRedactor(
+    config.redact === false ? { defaults: false } : config.redact,
+  );
+  const sink = newSink(config);
+  // 子ロガーも同じバッファに積む
+  return {
+    ...newLogger(level, (l, s, fields, e) => {
+      sink.push(jsonLogFormat(r, l, s, fields, e));
+    }),
+    flush: sink.flush,
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+interface Sink {
+  push: (line: string) => void;
+  flush: () => Promise<void>;
+}
+
+const newSink = (config: LogHttpConfig): Sink => {
+  const batchSize = config.batchSize ?? 100;
+  const flushInterval = config.flushInterval ?? 5000;
+  const maxBuffer = config.maxBuffer ?? 1000;
+  const send = newSender(config);
+
+  let buffer: string[] = [];
+  let dropped = 0; // バッファがあふれて捨てた件数
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let sending: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    // 送信中の flush があればその後に続ける (ログの順序を保つ)
+    sending = sending
+      .then(async () => {
+        while (buffer.length > 0) {
+          const batch = buffer.slice(0, batchSize);
+          buffer = buffer.slice(batchSize);
+          if (dropped > 0) {
+            batch.unshift(droppedNotice(dropped));
+            dropped = 0;
+          }
+          await send(batch);
+        }
+      })
+      .catch(() => undefined); // send は reject しない. ここに来るのは onError が投げた例外のみ
+    return sending;
+  };
+
+  const push = (line: string) => {
+    buffer.push(line);
+    if (buffer.length > maxBuffer) {
+      dropped += buffer.length - maxBuffer;
+      buffer = buffer.slice(buffer.length - maxBuffer);
+    }
+    if (buffer.length >= batchSize) {
+      void flush();
+    } else if (!timer && flushInterval > 0) {
+      timer = setTimeout(() => {
+        timer = undefined;
+        void flush();
+      }, flushInterval);
+      // Node / Bun ではタイマーでプロセスを止めないようにする
+      (timer as { unref?: () => void }).unref?.();
+    }
+  };
+
+  return { push, flush };
+};
+
+// 捨てたログの件数を知らせる行
+const droppedNotice = (count: number): string =>
+  JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level: "warn",
+    message: `Dropped ${count} log entries (buffer full)`,
+    dropped: count,
+  });
+
+// バッチを送る. 圧縮に失敗した場合や再試行しても失敗した場合は onError に渡して捨てる
+const newSender = (config: LogHttpConfig) => {
+  const fetchFn = config.fetch ?? defaultFetch;
+  const retries = config.retries ?? 3;
+  const backoff = config.backoff ?? 500;
+  const gzip = config.gzip ?? true;
+  // ログの送信失敗をログに出すと循環するので, デフォルトでは何もしない
+  const onError = config.onError ?? (() => undefined);
+
+  const fail = (batch: string[], cause: SystemError) =>
+    onError(
+      new SystemError(
+        `Failed to ship ${batch.length} log entries`,
+        [config.url],
+        cause,
+      ),
+    );
+
+  return async (batch: string[]): Promise<void> => {
+    const body = await encodeBody(`${batch.join("\n")}\n`, gzip);
+    if (body.isErr()) {
+      fail(batch, body.error);
+      return;
+    }
+    for (let attempt = 0; ; attempt++) {
+      const result = await post(fetchFn, config, body.value, gzip);
+      if (result.isOk()) {
+        return;
+      }
+      if (attempt >= retries) {
+        fail(batch, result.error);
+        return;
+      }
+      await sleep(backoff * 2 ** attempt);
+    }
+  };
+};
+
+// 呼び出し時点のグローバル fetch を使う
+const defaultFetch: Fetch = (input, init) => fetch(input, init);
+
+const post = (
+  fetchFn: Fetch,
+  config: LogHttpConfig,
+  body: Uint8Array<ArrayBuffer>,
+  gzip: boolean,
+): ResultAsync<void, SystemError> => {
+  const headers = new Headers(config.headers);
+  headers.set("Content-Type", "application/x-ndjson");
+  if (gzip) {
+    headers.set("Content-Encoding", "gzip");
+  }
+  return ResultAsync.fromPromise(
+    fetchFn(config.url, { method: "POST", headers, body }),
+    (e) => new SystemError("Failed to send logs", [config.url], e),
+  ).andThen((res) =>
+    res.ok
+      ? okAsync(undefined)
+      : errAsync(
+          new SystemError(`Failed to send logs: ${res.status}`, [config.url]),
+        ),
+  );
+};
+
+// CompressionStream がない環境などで圧縮に失敗した場合は SystemError にする
+const encodeBody = (
+  s: string,
+  gzip: boolean,
+): ResultAsync<Uint8Array<ArrayBuffer>, SystemError> =>
+  ResultAsync.fromPromise(
+    (async () => {
+      const bytes = new TextEncoder().encode(s);
+      if (!gzip) {
+        return bytes;
+      }
+      const stream = new Blob([bytes])
+        .stream()
+        .pipeThrough(new CompressionStream("gzip"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    })(),
+    (e) => new SystemError("Failed to encode logs", [], e),
+  );
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
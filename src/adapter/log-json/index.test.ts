@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { NotFoundError } from "../../error.js";
+import { newLogJson } from "./index.js";
+
+describe("newLogJson", () => {
+  let lines: string[];
+  let spy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    lines = [];
+    spy = spyOn(console, "log").mockImplementation((s: string) => {
+      lines.push(s);
+    });
+  });
+
+  afterEach(() => {
+    spy.mockRestore();
+  });
+
+  const logs = () => lines.map((line) => JSON.parse(line));
+
+  it("fields をトップレベルのキーとして 1 行の JSON で出力すること", () => {
+    newLogJson("info").info("user created", { userId: "u1", duration: 12 });
+
+    expect(lines).toHaveLength(1);
+    expect(logs()[0]).toEqual({
+      timestamp: expect.any(String),
+      level: "info",
+      message: "user created",
+      userId: "u1",
+      duration: 12,
+    });
+  });
+
+  it("child の fields を引き継ぎ, 呼び出し時の fields で上書きすること", () => {
+    const log = newLogJson("debug").child({ requestId: "req-1", step: "a" });
+    log.child({ userId: "u1" }).debug("nested");
+    log.info("override", { step: "b" });
+
+    expect(logs()).toMatchObject([
+      { message: "nested", requestId: "req-1", step: "a", userId: "u1" },
+      { message: "override", requestId: "req-1", step: "b" },
+    ]);
+  });
+
+  it("fields で timestamp / level / message / error を上書きしないこと", () => {
+    newLogJson("info")
+      .child({ level: "debug" })
+      .warn("real", { message: "fake", timestamp: "x", error: "y", ok: true });
+
+    const [log] = logs();
+    expect(log).toMatchObject({ level: "warn", message: "real", ok: true });
+    expect(log.timestamp).not.toBe("x");
+    expect(log.error).toBeUndefined();
+  });
+
+  it("しきい値より低いレベルは出力しないこと", () => {
+    const log = newLogJson("warn").child({ requestId: "req-1" });
+    log.info("skipped");
+    log.error("shown");
+
+    expect(logs().map((l) => l.message)).toEqual(["shown"]);
+  });
+
+  it("エラーを error キーにシリアライズすること", () => {
+    const e = new NotFoundError("user not found", ["id: 1"]);
+    newLogJson("info").error("failed", { userId: "u1" }, e);
+
+    expect(logs()[0]).toMatchObject({
+      userId: "u1",
+      error: {
+        name: "NotFoundError",
+        code: "NotFound Error",
+        message: "user not found",
+        details: ["id: 1"],
+        stack: expect.any(String),
+      },
+    });
+  });
+});
@@ -1,42 +1,66 @@
-import { AppError, Logger, LogLevel } from "../../index.js";
+import {
+  AppError,
+  LogFields,
+  Logger,
+  LogLevel,
+  LogThreshold,
+} from "../../index.js";
+import {
+  type LogLevels,
+  newLogger,
+  newRedactor,
+  type RedactOptions,
+  type Redactor,
+} from "../../lib/log/index.js";
 
-const thanLevel = (l1: LogLevel, l2: LogLevel): boolean => {
-  const levels: LogLevel[] = ["debug", "info", "warn", "error"];
-  return levels.indexOf(l1) <= levels.indexOf(l2);
-};
+// fields で上書きさせないキー
+const RESERVED_KEYS = ["timestamp", "level", "message", "error"];
+
+export interface LogJsonOptions {
+  redact?: RedactOptions | false; // false の場合, マスクしない
+}
 
-const jsonLogFormat = (
+// 1 件のログを JSON の 1 行にする (log-http でも使う)
+export const jsonLogFormat = (
+  r: Redactor,
   level: LogLevel,
   message: string,
+  fields: LogFields,
   e?: AppError,
 ): string =>
   JSON.stringify({
     timestamp: new Date().toISOString(),
     level,
-    message,
-    error: e,
+    message: r.text(message),
+    ...Object.fromEntries(
+      Object.entries(r.value(fields) as LogFields).filter(
+        ([k]) => !RESERVED_KEYS.includes(k),
+      ),
+    ),
+    error: e ? r.error(e) : undefined,
   });
 
-export const newLogJson = (level: LogLevel): Logger => ({
-  debug: (s: string, e?: AppError) => {
-    if (thanLevel(level, "debug")) {
-      console.log(jsonLogFormat("debug", s, e));
-    }
-  },
-
-  info: (s: string, e?: AppError) => {
-    if (thanLevel(level, "info")) {
-      console.log(jsonLogFormat("info", s, e));
-    }
-  },
-
-  warn: (s: string, e?: AppError) => {
-    if (thanLevel(level, "warn")) {
-      console.log(jsonLogFormat("warn", s, e));
-    }
-  },
-
-  error: (s: string, e?: AppError) => {
-    console.log(jsonLogFormat("error", s, e));
-  },
-});
+/**
+ * JSON 形式で出力するロガー
+ *
+ * fields はトップレベルのキーとして出力する.
+ * メッセージ, fields, エラーに含まれる秘密情報はマスクする (lib/log の newRedactor を参照)
+ *
+ * @example
+ * ```typescript
+ * const log = newLogJson("info").child({ requestId });
+ * log.info("user created", { userId, duration: 12 });
+ * // {"timestamp":"...","level":"info","message":"user created","requestId":"...","userId":"...","duration":12}
+ * ```
+ */
+export const newLogJson = (
+  level: LogThreshold | LogLevels,
+  opts: LogJsonOptions = {},
+): Logger => {
+  const r = newRedactor(
+    opts.redact === false ? { defaults: false } : opts.redact,
+  );
+  return newLogger(level, (l, s, fields, e) => {
+    console.log(jsonLogFormat(r, l, s, fields, e));
+  });
+};
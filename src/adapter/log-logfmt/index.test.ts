@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { NotFoundError, SystemError } from "../../error.js";
+import { newRedactor } from "../../lib/log/index.js";
+import { logfmtFormat, newLogLogfmt } from "./index.js";
+
+const r = newRedactor({ defaults: false });
+
+// ts を除いた行
+const format = (...args: Parameters<typeof logfmtFormat>) =>
+  logfmtFormat(...args).replace(/^ts=\S+ /, "");
+
+describe("logfmtFormat", () => {
+  it("ts / level / msg と fields を key=value で出力すること", () => {
+    const line = logfmtFormat(r, "info", "started", { port: 8080, ok: true });
+
+    expect(line).toMatch(
+      /^ts=\d{4}-\d{2}-\d{2}T\S+Z level=info msg=started port=8080 ok=true$/,
+    );
+  });
+
+  it("空白, 引用符, バックスラッシュ, 改行を含む値を引用符で囲んでエスケープすること", () => {
+    expect(
+      format(r, "warn", "slow request", {
+        path: 'C:\\tmp "x"',
+        note: "a\nb",
+        eq: "a=b",
+        empty: "",
+        nil: null,
+        skipped: undefined,
+      }),
+    ).toBe(
+      'level=warn msg="slow request" path="C:\\\\tmp \\"x\\"" note="a\\nb" eq="a=b" empty="" nil=null',
+    );
+  });
+
+  it("\r やその他の制御文字もエスケープして 1 行に収めること", () => {
+    const line = format(r, "warn", "a\r\nb", {
+      cr: "x\ry",
+      tab: "x\ty",
+      nul: "x\u0000y",
+    });
+
+    expect(line).toBe(
+      'level=warn msg="a\\r\\nb" cr="x\\ry" tab="x\\ty" nul="x\\u0000y"',
+    );
+    expect(line).not.toMatch(/[\r\n]/);
+  });
+
+  it("キーの英数字と _ . - 以外の文字は _ にすること", () => {
+    expect(
+      format(r, "info", "req", {
+        "user name": "a",
+        "x=y": 1,
+        'q"k': 2,
+        "": 3,
+        nested: { "a b": 4 },
+        "ok_key-1.x": 5,
+      }),
+    ).toBe(
+      "level=info msg=req user_name=a x_y=1 q_k=2 _=3 nested.a_b=4 ok_key-1.x=5",
+    );
+  });
+
+  it("ネストしたオブジェクトはドットでつなぎ, 配列と日付はそのまま表記すること", () => {
+    expect(
+      format(r, "info", "req", {
+        http: { method: "GET", status: 200 },
+        tags: ["a", "b"],
+        at: new Date("2024-01-01T00:00:00.000Z"),
+      }),
+    ).toBe(
+      'level=info msg=req http.method=GET http.status=200 tags="[\\"a\\",\\"b\\"]" at=2024-01-01T00:00:00.000Z',
+    );
+  });
+
+  it("fields で ts / level / msg / error を上書きしないこと", () => {
+    expect(
+      format(r, "info", "real", { level: "debug", msg: "fake", error: "x" }),
+    ).toBe("level=info msg=real");
+  });
+
+  it("エラーは stack と cause を含めて error. 以下に出力すること", () => {
+    const e = new SystemError("db down", ["host: db"], new Error("ECONNRESET"));
+    const line = format(r, "error", "failed", {}, e);
+
+    expect(line).toStartWith(
+      'level=error msg=failed error.name=SystemError error.code="System Error" error.message="db down" error.details="[\\"host: db\\"]" error.stack="',
+    );
+    expect(line).toContain(
+      ' error.cause.name=Error error.cause.message=ECONNRESET error.cause.stack="',
+    );
+    // stack の改行はエスケープして 1 行にする
+    expect(line).not.toContain("\n");
+  });
+});
+
+describe("newLogLogfmt", () => {
+  let lines: string[];
+  let spy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    lines = [];
+    spy = spyOn(console, "log").mockImplementation((s: string) => {
+      lines.push(s.replace(/^ts=\S+ /, ""));
+    });
+  });
+
+  afterEach(() => {
+    spy.mockRestore();
+  });
+
+  it("child の fields を引き継ぎ, 秘密情報をマスクすること", () => {
+    const log = newLogLogfmt("info").child({ requestId: "req-1" });
+    log.debug("skipped");
+    log.warn("login", { user: "alice@example.com" });
+    log.error("missing", new NotFoundError("not found"));
+
+    expect(lines[0]).toBe(
+      "level=warn msg=login requestId=req-1 user=a***@example.com",
+    );
+    expect(lines[1]).toStartWith(
+      'level=error msg=missing requestId=req-1 error.name=NotFoundError error.code="NotFound Error"',
+    );
+    expect(lines).toHaveLength(2);
+  });
+});
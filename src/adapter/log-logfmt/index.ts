@@ -0,0 +1,130 @@
+import {
+  AppError,
+  LogFields,
+  Logger,
+  LogLevel,
+  LogThreshold,
+} from "../../index.js";
+import {
+  type LogLevels,
+  newLogger,
+  newRedactor,
+  type RedactOptions,
+  type Redactor,
+} from "../../lib/log/index.js";
+
+export interface LogLogfmtOptions {
+  redact?: RedactOptions | false; // false の場合, マスクしない
+}
+
+// fields で上書きさせないキー
+const RESERVED_KEYS = ["ts", "level", "msg", "error"];
+
+/**
+ * 1 件のログを logfmt の 1 行にする
+ *
+ * ネストしたオブジェクトは `a.b=1` のようにドットでつなぐ.
+ * キーの英数字と `_.-` 以外の文字は `_` にし, 値の改行などの制御文字はエスケープする.
+ * エラーは log-json / log-otel と同じく stack を含めて `error.` 以下に出力する (改行はエスケープする)
+ */
+export const logfmtFormat = (
+  r: Redactor,
+  level: LogLevel,
+  message: string,
+  fields: LogFields,
+  e?: AppError,
+): string => {
+  const redacted = r.value(fields) as LogFields;
+  const pairs: [string, unknown][] = [
+    ["ts", new Date().toISOString()],
+    ["level", level],
+    ["msg", r.text(message)],
+    ...flatten(
+      Object.fromEntries(
+        Object.entries(redacted).filter(([k]) => !RESERVED_KEYS.includes(k)),
+      ),
+      "",
+    ),
+    ...(e ? flatten({ error: r.error(e) }, "") : []),
+  ];
+  return pairs
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${formatKey(k)}=${formatValue(v)}`)
+    .join(" ");
+};
+
+/**
+ * logfmt 形式で出力するロガー
+ *
+ * @example
+ * ```typescript
+ * const log = newLogLogfmt("info").child({ requestId });
+ * log.warn("slow request", { duration: 1200 });
+ * // ts=2024-01-01T00:00:00.000Z level=warn msg="slow request" requestId=... duration=1200
+ * ```
+ */
+export const newLogLogfmt = (
+  level: LogThreshold | LogLevels,
+  opts: LogLogfmtOptions = {},
+): Logger => {
+  const r = newRedactor(
+    opts.redact === false ? { defaults: false } : opts.redact,
+  );
+  return newLogger(level, (l, s, fields, e) => {
+    console.log(logfmtFormat(r, l, s, fields, e));
+  });
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+
+// プレーンなオブジェクトをドット区切りのキーに展開する
+const flatten = (
+  v: Record<string, unknown>,
+  prefix: string,
+): [string, unknown][] =>
+  Object.entries(v).flatMap(([k, x]): [string, unknown][] =>
+    isPlainObject(x) ? flatten(x, `${prefix}${k}.`) : [[`${prefix}${k}`, x]],
+  );
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" &&
+  v !== null &&
+  Object.getPrototypeOf(v) === Object.prototype;
+
+// 空白や = を含むキーは logfmt として読めないので, 使えない文字を _ にする
+const formatKey = (k: string): string =>
+  k.replace(/[^A-Za-z0-9_.-]/g, "_") || "_";
+
+const ESCAPES: Record<string, string> = {
+  "\\": "\\\\",
+  '"': '\\"',
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+};
+
+// 引用符の中で 1 行に収まるようにエスケープする
+const escapeValue = (s: string): string =>
+  s.replace(
+    /[\\"\p{Cc}]/gu,
+    (c) => ESCAPES[c] ?? `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  );
+
+// 空白や記号, 制御文字を含む値は引用符で囲む
+const formatValue = (v: unknown): string => {
+  if (v === null) {
+    return "null";
+  }
+  if (typeof v === "number" || typeof v === "boolean") {
+    return String(v);
+  }
+  const s =
+    typeof v === "string"
+      ? v
+      : v instanceof Date
+        ? v.toISOString()
+        : JSON.stringify(v);
+  return /^[^\s"=\\\p{Cc}]+$/u.test(s) ? s : `"${escapeValue(s)}"`;
+};
@@ -0,0 +1,57 @@
+import type {
+  AppError,
+  LogFields,
+  Logger,
+  LogLevel,
+  LogThreshold,
+} from "../../index.js";
+import { type LogLevels, newLogger } from "../../lib/log/index.js";
+
+// 記録したログ
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  fields: LogFields; // 子ロガーのフィールドを含む
+  error?: AppError;
+  timestamp: Date;
+}
+
+export interface MemoryLogger extends Logger {
+  readonly entries: LogEntry[]; // 記録したログ (子ロガーの分も含む)
+  find: (pred: (entry: LogEntry) => boolean) => LogEntry | undefined;
+  clear: () => void;
+}
+
+/**
+ * ログをメモリに記録するロガー (テスト用)
+ *
+ * @example
+ * ```typescript
+ * const logger = newLogMemory();
+ * await service(logger).run();
+ * expect(logger.entries).toContainEqual(
+ *   expect.objectContaining({ level: "warn", message: "retrying" }),
+ * );
+ * ```
+ */
+export const newLogMemory = (
+  level: LogThreshold | LogLevels = "debug",
+): MemoryLogger => {
+  const entries: LogEntry[] = [];
+  return {
+    ...newLogger(level, (l, s, fields, e) => {
+      entries.push({
+        level: l,
+        message: s,
+        fields,
+        error: e,
+        timestamp: new Date(),
+      });
+    }),
+    entries,
+    find: (pred: (entry: LogEntry) => boolean) => entries.find(pred),
+    clear: () => {
+      entries.length = 0;
+    },
+  };
+};
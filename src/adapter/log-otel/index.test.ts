@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { SystemError, ValidationError } from "../../error.js";
+import { newRedactor } from "../../lib/log/index.js";
+import { newLogOtel, type OtelLogRecord, otelLogRecord } from "./index.js";
+
+const r = newRedactor({ defaults: false });
+const RESOURCE = { "service.name": "api" };
+
+describe("otelLogRecord", () => {
+  it("レベルを SeverityNumber / SeverityText に対応させること", () => {
+    const severities = (["debug", "info", "warn", "error"] as const).map(
+      (l) => {
+        const record = otelLogRecord(r, RESOURCE, l, "m", {});
+        return [record.severityNumber, record.severityText];
+      },
+    );
+    expect(severities).toEqual([
+      [5, "DEBUG"],
+      [9, "INFO"],
+      [13, "WARN"],
+      [17, "ERROR"],
+    ]);
+  });
+
+  it("メッセージを body に, fields を attributes に, resource をそのまま入れること", () => {
+    const record = otelLogRecord(r, RESOURCE, "info", "request handled", {
+      status: 200,
+      http: { method: "GET" },
+    });
+
+    expect(record).toEqual({
+      timeUnixNano: expect.stringMatching(/^\d+000000$/),
+      observedTimeUnixNano: record.timeUnixNano,
+      severityNumber: 9,
+      severityText: "INFO",
+      body: "request handled",
+      attributes: { status: 200, http: { method: "GET" } },
+      resource: RESOURCE,
+      traceId: undefined,
+      spanId: undefined,
+      traceFlags: undefined,
+    });
+  });
+
+  it("traceId / spanId / traceFlags を attributes からレコードに移すこと", () => {
+    const record = otelLogRecord(r, RESOURCE, "info", "m", {
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      traceFlags: 1,
+      userId: "u1",
+    });
+
+    expect(record.traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(record.spanId).toBe("00f067aa0ba902b7");
+    expect(record.traceFlags).toBe(1);
+    expect(record.attributes).toEqual({ userId: "u1" });
+  });
+
+  it("型が合わない trace の値はレコードに入れないこと", () => {
+    const record = otelLogRecord(r, RESOURCE, "info", "m", {
+      traceId: 1,
+      traceFlags: "01",
+    });
+
+    expect(record.traceId).toBeUndefined();
+    expect(record.traceFlags).toBeUndefined();
+    expect(record.attributes).toEqual({});
+  });
+
+  it("エラーを exception.* の attributes にすること", () => {
+    const e = new ValidationError(
+      "invalid",
+      ["name: required"],
+      new Error("x"),
+    );
+    const record = otelLogRecord(r, RESOURCE, "error", "failed", { a: 1 }, e);
+
+    expect(record.attributes).toEqual({
+      a: 1,
+      "exception.type": "ValidationError",
+      "exception.message": "invalid",
+      "exception.stacktrace": e.stack,
+      "exception.code": "Validation Error",
+      "exception.details": ["name: required"],
+      "exception.cause": expect.objectContaining({
+        name: "Error",
+        message: "x",
+      }),
+    });
+  });
+});
+
+describe("newLogOtel", () => {
+  it("child の fields を引き継いだレコードを write に渡すこと", () => {
+    const records: OtelLogRecord[] = [];
+    const log = newLogOtel("info", {
+      resource: RESOURCE,
+      write: (record) => records.push(record),
+    }).child({ traceId: "t1", requestId: "req-1" });
+
+    log.debug("skipped");
+    log.warn("login", { user: "alice@example.com" });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      severityText: "WARN",
+      body: "login",
+      traceId: "t1",
+      resource: RESOURCE,
+      attributes: { requestId: "req-1", user: "a***@example.com" },
+    });
+  });
+
+  describe("write がない場合", () => {
+    let lines: string[];
+    let spy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      lines = [];
+      spy = spyOn(console, "log").mockImplementation((s: string) => {
+        lines.push(s);
+      });
+    });
+
+    afterEach(() => {
+      spy.mockRestore();
+    });
+
+    it("レコードを JSON で console.log に出力すること", () => {
+      newLogOtel("info").error("failed", new SystemError("db down"));
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toMatchObject({
+        severityNumber: 17,
+        body: "failed",
+        resource: {},
+        attributes: { "exception.message": "db down" },
+      });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  AppError,
+  LogFields,
+  Logger,
+  LogLevel,
+  LogThreshold,
+} from "../../index.js";
+import {
+  type LogLevels,
+  newLogger,
+  newRedactor,
+  type RedactOptions,
+  type Redactor,
+} from "../../lib/log/index.js";
+
+/**
+ * OpenTelemetry Logs Data Model のログレコード
+ *
+ * https://opentelemetry.io/docs/specs/otel/logs/data-model/
+ */
+export interface OtelLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: string;
+  attributes: Record<string, unknown>;
+  resource: Record<string, unknown>; // Resource の attributes (service.name など)
+  traceId?: string;
+  spanId?: string;
+  traceFlags?: number;
+}
+
+export interface LogOtelOptions {
+  resource?: Record<string, unknown>; // すべてのレコードに付ける Resource
+  redact?: RedactOptions | false; // false の場合, マスクしない
+  write?: (record: OtelLogRecord) => void; // 出力先. デフォルトは JSON を console.log
+}
+
+// LogLevel と SeverityNumber の対応 (各範囲の先頭の値)
+const SEVERITY: Record<LogLevel, { number: number; text: string }> = {
+  debug: { number: 5, text: "DEBUG" },
+  info: { number: 9, text: "INFO" },
+  warn: { number: 13, text: "WARN" },
+  error: { number: 17, text: "ERROR" },
+};
+
+// レコードのトップレベルに移す fields のキー
+const TRACE_KEYS = ["traceId", "spanId", "traceFlags"];
+
+/**
+ * 1 件のログを OpenTelemetry のログレコードにする
+ *
+ * fields は attributes に入れる. ただし traceId / spanId / traceFlags はレコードに移す.
+ * エラーは exception.* (セマンティック規約) と code / details / cause の連鎖を attributes に入れる
+ */
+export const otelLogRecord = (
+  r: Redactor,
+  resource: Record<string, unknown>,
+  level: LogLevel,
+  message: string,
+  fields: LogFields,
+  e?: AppError,
+): OtelLogRecord => {
+  const now = `${Date.now()}000000`;
+  const redacted = r.value(fields) as LogFields;
+  const attributes = Object.fromEntries(
+    Object.entries(redacted).filter(([k]) => !TRACE_KEYS.includes(k)),
+  );
+  return {
+    timeUnixNano: now,
+    observedTimeUnixNano: now,
+    severityNumber: SEVERITY[level].number,
+    severityText: SEVERITY[level].text,
+    body: r.text(message),
+    attributes: e
+      ? { ...attributes, ...exceptionAttributes(r, e) }
+      : attributes,
+    resource,
+    traceId: stringOf(fields.traceId),
+    spanId: stringOf(fields.spanId),
+    traceFlags:
+      typeof fields.traceFlags === "number" ? fields.traceFlags : undefined,
+  };
+};
+
+/**
+ * OpenTelemetry Logs Data Model のレコードを出力するロガー
+ *
+ * @example
+ * ```typescript
+ * const log = newLogOtel("info", { resource: { "service.name": "api" } });
+ * log.child({ traceId, spanId }).info("request handled", { status: 200 });
+ * ```
+ */
+export const newLogOtel = (
+  level: LogThreshold | LogLevels,
+  opts: LogOtelOptions = {},
+): Logger => {
+  const r = newRedactor(
+    opts.redact === false ? { defaults: false } : opts.redact,
+  );
+  const resource = opts.resource ?? {};
+  const write =
+    opts.write ??
+    ((record: OtelLogRecord) => console.log(JSON.stringify(record)));
+  return newLogger(level, (l, s, fields, e) => {
+    write(otelLogRecord(r, resource, l, s, fields, e));
+  });
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const exceptionAttributes = (
+  r: Redactor,
+  e: AppError,
+): Record<string, unknown> => {
+  const { name, code, message, details, stack, cause } = r.error(e);
+  return {
+    "exception.type": name,
+    "exception.message": message,
+    "exception.stacktrace": stack,
+    "exception.code": code,
+    "exception.details": details,
+    "exception.cause": cause,
+  };
+};
+
+const stringOf = (v: unknown): string | undefined =>
+  typeof v === "string" ? v : undefined;
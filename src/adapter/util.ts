@@ -12,6 +12,17 @@ export const getTokenFromHeader = (
     .with(null, () => err(new AuthError("No token found in headers")))
     .exhaustive();
 
+// Authorization: Bearer <token> ヘッダからトークンを取得
+export const getTokenFromBearer = (
+  req: Request,
+  headerKey = "Authorization",
+): Result<string, AuthError> =>
+  getTokenFromHeader(req, headerKey).andThen((value) =>
+    match(value.match(/^Bearer\s+(\S+)\s*$/i))
+      .with(P.nonNullable, ([, token]) => ok(token))
+      .otherwise(() => err(new AuthError("No bearer token found in headers"))),
+  );
+
 // Cookie からトークンを取得
 export const getTokenFromCookie = (
   req: Request,
@@ -51,3 +62,62 @@ const parseCookie = (cookieHeader: string): Map<string, string> =>
       })
       .filter(([key]) => key.length > 0) as [string, string][],
   );
+
+// Set-Cookie の属性
+export interface CookieOptions {
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  path?: string;
+  domain?: string;
+  maxAge?: number; // 秒
+  expires?: Date;
+}
+
+// Set-Cookie ヘッダの値を生成 (値は parseCookie と対になるようエンコードする)
+export const serializeCookie = (
+  name: string,
+  value: string,
+  opts: CookieOptions = {},
+): string =>
+  [
+    `${encodeURIComponent(name)}=${encodeURIComponent(value)}`,
+    opts.maxAge !== undefined && `Max-Age=${Math.floor(opts.maxAge)}`,
+    opts.expires && `Expires=${opts.expires.toUTCString()}`,
+    opts.domain && `Domain=${opts.domain}`,
+    opts.path && `Path=${opts.path}`,
+    opts.httpOnly && "HttpOnly",
+    opts.secure && "Secure",
+    opts.sameSite && `SameSite=${opts.sameSite}`,
+  ]
+    .filter((attr): attr is string => typeof attr === "string")
+    .join("; ");
+
+// バイト列を Base64URL (パディングなし) にエンコード
+export const encodeBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++)
+    binary += String.fromCharCode(bytes[i]);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/g, "");
+};
+
+// Base64URL をバイト列にデコード
+export const decodeBase64Url = (
+  str: string,
+): Result<Uint8Array<ArrayBuffer>, Error> => {
+  if (!/^[A-Za-z0-9_-]*$/.test(str)) {
+    return err(new Error("Invalid base64url input"));
+  }
+  let base64 = str.replace(/-/g, "+").replace(/_/g, "/");
+  while (base64.length % 4) {
+    base64 += "=";
+  }
+  try {
+    return ok(Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)));
+  } catch {
+    return err(new Error("Invalid base64url input"));
+  }
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AppError,
+  AuthError,
+  ConflictError,
+  type ErrorHandlers,
+  ForbiddenError,
+  matchError,
+  mergeValidationError,
+  NotFoundError,
+  RateLimitError,
+  SystemError,
+  TimeoutError,
+  UnavailableError,
+  UserError,
+  ValidationError,
+} from "./error.js";
+
+// matchError の結果としてクラス名を返すハンドラ
+const names: ErrorHandlers<string> = {
+  SystemError: () => "SystemError",
+  TimeoutError: () => "TimeoutError",
+  UnavailableError: () => "UnavailableError",
+  ValidationError: () => "ValidationError",
+  NotFoundError: () => "NotFoundError",
+  AuthError: () => "AuthError",
+  ForbiddenError: () => "ForbiddenError",
+  ConflictError: () => "ConflictError",
+  RateLimitError: () => "RateLimitError",
+};
+
+const cases: [
+  AppError,
+  string,
+  string,
+  typeof SystemError | typeof UserError,
+][] = [
+  [new SystemError("e"), "SystemError", "System Error", SystemError],
+  [new TimeoutError("e"), "TimeoutError", "Timeout Error", SystemError],
+  [
+    new UnavailableError("e"),
+    "UnavailableError",
+    "Unavailable Error",
+    SystemError,
+  ],
+  [new ValidationError("e"), "ValidationError", "Validation Error", UserError],
+  [new NotFoundError("e"), "NotFoundError", "NotFound Error", UserError],
+  [new AuthError("e"), "AuthError", "Auth Error", UserError],
+  [new ForbiddenError("e"), "ForbiddenError", "Forbidden Error", UserError],
+  [new ConflictError("e"), "ConflictError", "Conflict Error", UserError],
+  [new RateLimitError("e"), "RateLimitError", "RateLimit Error", UserError],
+];
+
+describe("AppError", () => {
+  for (const [e, name, code, parent] of cases) {
+    describe(name, () => {
+      it("自身のクラスと親クラスの instanceof が true になること", () => {
+        expect(e).toBeInstanceOf(AppError);
+        expect(e).toBeInstanceOf(parent);
+        expect(e.constructor.name).toBe(name);
+        expect(e.name).toBe(name);
+      });
+
+      it("エラーコードを持つこと", () => {
+        expect(e.code).toBe(code);
+      });
+
+      it("matchError で対応するハンドラが呼ばれること", () => {
+        expect(matchError(e, names)).toBe(name);
+      });
+    });
+  }
+
+  it("UserError と SystemError が区別できること", () => {
+    expect(new NotFoundError("e")).not.toBeInstanceOf(SystemError);
+    expect(new TimeoutError("e")).not.toBeInstanceOf(UserError);
+    expect(new AuthError("e")).not.toBeInstanceOf(NotFoundError);
+  });
+
+  it("cause を構造化して保持し, stack には連結しないこと", () => {
+    const root = new Error("connection refused");
+    const e = new SystemError("db error", ["query failed"], root);
+    expect(e.cause).toBe(root);
+    expect(e.stack).not.toContain("Caused by");
+  });
+
+  it("toJSON で cause の連鎖をシリアライズできること", () => {
+    const root = new Error("socket hang up");
+    const mid = new UnavailableError("upstream down", [], root);
+    const e = new SystemError("request failed", ["GET /users"], mid);
+    const json = JSON.parse(JSON.stringify(e));
+
+    expect(json).toMatchObject({
+      name: "SystemError",
+      code: "System Error",
+      message: "request failed",
+      details: ["GET /users"],
+      cause: {
+        name: "UnavailableError",
+        code: "Unavailable Error",
+        message: "upstream down",
+        cause: { name: "Error", message: "socket hang up" },
+      },
+    });
+  });
+
+  it("循環した cause でも toJSON が終了すること", () => {
+    const a = new SystemError("a");
+    const b = new SystemError("b", [], a);
+    a.cause = b;
+    expect(() => JSON.stringify(a)).not.toThrow();
+  });
+
+  it("RateLimitError は retryAfter を持つこと", () => {
+    const e = new RateLimitError("too many requests", 30);
+    expect(e.retryAfter).toBe(30);
+    expect(e.toJSON().retryAfter).toBe(30);
+  });
+
+  it("ValidationError 以外も code と params を持つ issues を持てること", () => {
+    const issue = {
+      path: [],
+      code: "role_required",
+      message: "Role required: admin",
+      params: { roles: ["admin"] },
+    };
+    const e = new ForbiddenError("Role required: admin", [], undefined, [
+      issue,
+    ]);
+    expect(e.issues).toEqual([issue]);
+    expect(e.toJSON().issues).toEqual([issue]);
+
+    const limited = new RateLimitError("slow down", 30, [], undefined, [issue]);
+    expect(limited.issues).toEqual([issue]);
+
+    // issues がなければ toJSON に含めない
+    expect(new NotFoundError("x").issues).toEqual([]);
+    expect(new NotFoundError("x").toJSON()).not.toHaveProperty("issues");
+  });
+
+  it("mergeValidationError で details を連結できること", () => {
+    const e = mergeValidationError([
+      new ValidationError("a", ["a is invalid"]),
+      new ValidationError("b", ["b is invalid"]),
+    ]);
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.details).toEqual(["a is invalid", "b is invalid"]);
+  });
+});
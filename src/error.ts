@@ -1,31 +1,68 @@
+import { match, P } from "ts-pattern";
+
 /**
  * NWU アプリケーション カスタムエラー
  *
  * - App Error
  *   - System Error: システム起因エラー
+ *     - Timeout Error: タイムアウトエラー
+ *     - Unavailable Error: 依存先が利用できないエラー
  *   - User Error: ユーザー起因エラー
  *     - Validation Error: バリデーションエラー
  *     - NotFound Error: データが見つからないエラー
  *     - Auth Error: 認証エラー
+ *     - Forbidden Error: 認可エラー
+ *     - Conflict Error: 競合エラー
+ *     - RateLimit Error: レート制限エラー
  */
 
 // 基底エラークラス
+//
+// details は開発者向けの文字列. 利用者に翻訳して見せる内容は issues (code と params を持つ) に入れる
 export abstract class AppError extends Error {
   public code = "App Error";
   public details: string[];
+  public cause?: unknown; // 原因となったエラー
+  public issues: ValidationIssue[]; // 構造化した details (lib/i18n で翻訳できる)
 
-  constructor(message: string, details?: string[], e?: Error) {
+  constructor(
+    message: string,
+    details?: string[],
+    cause?: unknown,
+    issues?: ValidationIssue[],
+  ) {
     super(message); // 親クラスのコンストラクタを呼び出し
     this.details = details || [];
-    if (e) {
-      // エラーが渡された場合はスタックトレースを追加する
-      this.stack += `\nCaused by: ${e.stack}`;
-    }
+    this.cause = cause;
+    this.issues = issues || [];
     this.name = this.constructor.name; // エラー名をクラス名に設定
-    Object.setPrototypeOf(this, SystemError.prototype); // プロトタイプチェーンを正しく設定
+    Object.setPrototypeOf(this, new.target.prototype); // プロトタイプチェーンを正しく設定
+  }
+
+  // JSON にシリアライズする (cause もたどって含める)
+  toJSON(): SerializedError {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      details: this.details,
+      ...(this.issues.length > 0 ? { issues: this.issues } : {}),
+      stack: this.stack,
+      cause: serializeCause(this.cause, 1),
+    };
   }
 }
 
+export interface SerializedError {
+  name: string;
+  code?: string;
+  message: string;
+  details?: string[];
+  issues?: ValidationIssue[];
+  stack?: string;
+  cause?: SerializedError;
+}
+
 /**
  * System Error システム起因エラー
  */
@@ -33,6 +70,20 @@ export class SystemError extends AppError {
   public code = "System Error";
 }
 
+/**
+ * Timeout Error タイムアウトエラー
+ */
+export class TimeoutError extends SystemError {
+  public code = "Timeout Error";
+}
+
+/**
+ * Unavailable Error 依存先が利用できないエラー
+ */
+export class UnavailableError extends SystemError {
+  public code = "Unavailable Error";
+}
+
 /**
  * User Error ユーザー起因エラー
  * */
@@ -40,9 +91,24 @@ export abstract class UserError extends AppError {}
 
 /**
  * Validation Error バリデーションエラー
+ *
+ * issues にはどの項目がなぜ不正だったかを構造化して持つ
  */
 export class ValidationError extends UserError {
   public code = "Validation Error";
+
+  toJSON(): SerializedError & { issues: ValidationIssue[] } {
+    return { ...super.toJSON(), issues: this.issues };
+  }
+}
+
+// バリデーションエラーの項目. ValidationError 以外でも details を構造化して持つのに使う
+export interface ValidationIssue {
+  path: (string | number)[]; // 不正な項目の位置 (["items", 0, "price"] など). 項目がなければ []
+  code: string; // zod の issue code ("invalid_type", "too_small" など) や NWU 独自の code ("role_required" など)
+  message: string;
+  type?: string; // newType に渡した型名
+  params?: Record<string, unknown>; // メッセージの組み立てに使う値 (minimum, expected など)
 }
 
 /**
@@ -59,6 +125,43 @@ export class AuthError extends UserError {
   public code = "Auth Error";
 }
 
+/**
+ * Forbidden Error 認可エラー (認証済みだが権限がない)
+ */
+export class ForbiddenError extends UserError {
+  public code = "Forbidden Error";
+}
+
+/**
+ * Conflict Error 競合エラー (重複登録, 楽観ロックの失敗など)
+ */
+export class ConflictError extends UserError {
+  public code = "Conflict Error";
+}
+
+/**
+ * RateLimit Error レート制限エラー
+ */
+export class RateLimitError extends UserError {
+  public code = "RateLimit Error";
+  public retryAfter?: number; // 再試行までの秒数
+
+  constructor(
+    message: string,
+    retryAfter?: number,
+    details?: string[],
+    cause?: unknown,
+    issues?: ValidationIssue[],
+  ) {
+    super(message, details, cause, issues);
+    this.retryAfter = retryAfter;
+  }
+
+  toJSON(): SerializedError & { retryAfter?: number } {
+    return { ...super.toJSON(), retryAfter: this.retryAfter };
+  }
+}
+
 // ----------------------------------------------
 // ヘルパー関数
 
@@ -66,5 +169,74 @@ export const mergeValidationError = (es: ValidationError[]): ValidationError =>
   new ValidationError(
     "multiple types are invalid",
     es.reduce<string[]>((acc, e) => acc.concat(e.details), []), // 複数のエラーの details を連結 してつめる
-    // stack にエラーは入れない. ( NOTE: うまく結合する方法があれば入れたい)
+    undefined, // cause にエラーは入れない. ( NOTE: うまく結合する方法があれば入れたい)
+    es.reduce<ValidationIssue[]>((acc, e) => acc.concat(e.issues), []),
   );
+
+// 具象エラークラスごとのハンドラ
+export interface ErrorHandlers<R> {
+  SystemError: (e: SystemError) => R; // 未知の AppError もここで扱う
+  TimeoutError: (e: TimeoutError) => R;
+  UnavailableError: (e: UnavailableError) => R;
+  ValidationError: (e: ValidationError) => R;
+  NotFoundError: (e: NotFoundError) => R;
+  AuthError: (e: AuthError) => R;
+  ForbiddenError: (e: ForbiddenError) => R;
+  ConflictError: (e: ConflictError) => R;
+  RateLimitError: (e: RateLimitError) => R;
+}
+
+/**
+ * エラーの具象クラスごとに処理を分岐する
+ *
+ * すべての具象クラスのハンドラが必須なので, エラークラスが増えた場合は
+ * 型エラーで対応漏れに気づける. 未知の AppError は SystemError として扱う
+ *
+ * @example
+ * ```typescript
+ * const status = matchError(e, {
+ *   SystemError: () => 500,
+ *   TimeoutError: () => 504,
+ *   ...
+ * });
+ * ```
+ */
+export const matchError = <R>(e: AppError, handlers: ErrorHandlers<R>): R =>
+  // 具象クラス同士は構造が同じで型では絞り込めないため, 入力は unknown として照合する
+  match(e as unknown)
+    .with(P.instanceOf(TimeoutError), handlers.TimeoutError)
+    .with(P.instanceOf(UnavailableError), handlers.UnavailableError)
+    .with(P.instanceOf(ValidationError), handlers.ValidationError)
+    .with(P.instanceOf(NotFoundError), handlers.NotFoundError)
+    .with(P.instanceOf(AuthError), handlers.AuthError)
+    .with(P.instanceOf(ForbiddenError), handlers.ForbiddenError)
+    .with(P.instanceOf(ConflictError), handlers.ConflictError)
+    .with(P.instanceOf(RateLimitError), handlers.RateLimitError)
+    .with(P.instanceOf(SystemError), handlers.SystemError)
+    .otherwise(() =>
+      handlers.SystemError(new SystemError(e.message, e.details, e, e.issues)),
+    );
+
+// cause をシリアライズする (循環していても止まるよう深さを制限する)
+const MAX_CAUSE_DEPTH = 10;
+
+const serializeCause = (
+  cause: unknown,
+  depth: number,
+): SerializedError | undefined => {
+  if (cause === undefined || cause === null || depth > MAX_CAUSE_DEPTH) {
+    return undefined;
+  }
+  if (cause instanceof Error) {
+    const { code, details } = cause as Partial<AppError>;
+    return {
+      name: cause.name,
+      code,
+      message: cause.message,
+      details,
+      stack: cause.stack,
+      cause: serializeCause((cause as { cause?: unknown }).cause, depth + 1),
+    };
+  }
+  return { name: "Unknown", message: String(cause) };
+};
@@ -1,24 +1,60 @@
 import type { ResultAsync } from "neverthrow";
-import type { AppError, AuthError } from "./error.js";
+import type {
+  AppError,
+  AuthError,
+  ForbiddenError,
+  SystemError,
+} from "./error.js";
 
 // ----------------------------------------------
 // Logger ロガー
 export interface Logger {
-  debug: (s: string, e?: AppError) => void;
-  info: (s: string, e?: AppError) => void;
-  warn: (s: string, e?: AppError) => void;
-  error: (s: string, e?: AppError) => void;
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+  child: (fields: LogFields) => Logger; // fields を付与したロガーを返す
+  named: (name: string) => Logger; // 名前付きのロガーを返す. 名前ごとにレベルを設定できる
 }
 export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogThreshold = LogLevel | "silent"; // 出力する最低のレベル. silent は何も出力しない
+
+// 構造化ログのフィールド (requestId, userId, duration など)
+export type LogFields = Record<string, unknown>;
+
+export interface LogMethod {
+  (s: string, e?: AppError): void;
+  (s: string, fields?: LogFields, e?: AppError): void;
+}
+
+// ----------------------------------------------
+// Fetch HTTP クライアント (テストでは差し替える)
+export type Fetch = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
 
 // ----------------------------------------------
 // User ユーザー情報
-export interface User {
+//
+// Mail は lib/vo の Email にできる (newUserWithEmail で検証する)
+export interface User<Mail extends string = string> {
   id: string; // ユーザー識別子
-  mail: string; // メールアドレス
+  mail: Mail; // メールアドレス
+  roles?: string[]; // ロール
+  groups?: string[]; // 所属グループ
+  claims?: Record<string, unknown>; // 認証元から得たその他の属性 (JWT クレームなど)
 }
 
 // Auth 認証
+//
+// auth のエラー
+// - AuthError: 認証情報がない, または不正 (401)
+// - ForbiddenError: 認証できたが権限がない (403)
+// - SystemError: JWKS の取得失敗など, 認証元の障害で判定できない (5xx). 401 として扱わないこと
 export interface Auth {
-  auth(req: Request): ResultAsync<User, AuthError>;
+  auth(
+    req: Request,
+  ): ResultAsync<User, AuthError | ForbiddenError | SystemError>;
+  readonly mock?: boolean; // テスト用の adapter (本番環境では使えない)
 }
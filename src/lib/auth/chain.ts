@@ -0,0 +1,124 @@
+import { err, errAsync, ok, Result, type ResultAsync } from "neverthrow";
+import {
+  type AppError,
+  AuthError,
+  ForbiddenError,
+  SystemError,
+} from "../../error.js";
+import type { Auth, User } from "../../interface.js";
+
+/**
+ * 複数の Auth を順に試し, 最初に認証できたユーザーを返す Auth を作成する
+ *
+ * - ForbiddenError (認証できたが権限がない) を返した adapter があれば, 後続を試さずにそのまま返す
+ * - すべて失敗し, いずれかが SystemError (JWKS の取得失敗など) の場合は SystemError を返す.
+ *   認証元の障害を 401 として扱わないため
+ * - それ以外は AuthError を返す
+ *
+ * 各 adapter の失敗理由は details にまとめる. 名前付きで渡すと details に名前が入る
+ *
+ * @example
+ * ```typescript
+ * const auth = chainAuth({
+ *   cloudflare: newAuthCloudflare(env.TEAM_DOMAIN, env.AUD),
+ *   apikey: newAuthApiKey({ store }),
+ * });
+ * ```
+ */
+export const chainAuth = (adapters: Auth[] | Record<string, Auth>): Auth => {
+  const entries = Array.isArray(adapters)
+    ? adapters.map((auth, i) => [`#${i}`, auth] as const)
+    : Object.entries(adapters);
+
+  const tryFrom = (
+    req: Request,
+    i: number,
+    reasons: string[],
+    outage?: SystemError,
+  ): ResultAsync<User, AuthError | ForbiddenError | SystemError> => {
+    if (i >= entries.length) {
+      const message = "No auth adapter accepted the request";
+      return errAsync(
+        outage
+          ? new SystemError(message, reasons, outage)
+          : new AuthError(message, reasons),
+      );
+    }
+    const [name, auth] = entries[i];
+    // Request の body を消費する adapter があっても後続が読めるよう複製して渡す
+    return auth
+      .auth(req.clone())
+      .orElse((e) =>
+        e instanceof ForbiddenError
+          ? errAsync(e)
+          : tryFrom(
+              req,
+              i + 1,
+              [...reasons, reason(name, e)],
+              outage ?? (e instanceof SystemError ? e : undefined),
+            ),
+      );
+  };
+
+  return {
+    auth: (req: Request) => tryFrom(req, 0, []),
+    mock: entries.some(([, auth]) => auth.mock),
+  };
+};
+
+const reason = (name: string, e: AppError): string =>
+  `${name}: ${e.code}: ${e.message}`;
+
+export interface EnvAuthConfig {
+  env: string | undefined; // 現在の環境名 (env.ENVIRONMENT など)
+  adapters: Record<string, Auth | (() => Auth)>; // 環境名ごとの adapter (またはその生成関数)
+  production?: string[]; // 本番環境とみなす環境名 (デフォルト: production, prod)
+}
+
+const DEFAULT_PRODUCTION = ["production", "prod"];
+
+/**
+ * 環境名から Auth を選ぶ
+ *
+ * 本番環境で mock の adapter (newAuthMock やそれを含む chainAuth など) が
+ * 選ばれた場合は SystemError を返す
+ *
+ * @example
+ * ```typescript
+ * const auth = envAuth({
+ *   env: env.ENVIRONMENT,
+ *   adapters: {
+ *     production: () => newAuthCloudflare(env.TEAM_DOMAIN, env.AUD),
+ *     development: newAuthMock,
+ *   },
+ * });
+ * ```
+ */
+export const envAuth = (config: EnvAuthConfig): Result<Auth, SystemError> => {
+  const env = config.env?.trim();
+  // 環境名は大文字小文字を区別しない ("Production" も production とみなす)
+  const key = env
+    ? Object.keys(config.adapters).find(
+        (k) => k.toLowerCase() === env.toLowerCase(),
+      )
+    : undefined;
+  const adapter = key ? config.adapters[key] : undefined;
+  if (!env || !adapter) {
+    return err(
+      new SystemError(`No auth adapter configured for environment: ${env}`, [
+        `available: ${Object.keys(config.adapters).join(", ")}`,
+      ]),
+    );
+  }
+
+  const auth = typeof adapter === "function" ? adapter() : adapter;
+  const production = (config.production ?? DEFAULT_PRODUCTION).map((p) =>
+    p.toLowerCase(),
+  );
+  if (auth.mock && production.includes(env.toLowerCase())) {
+    return err(
+      new SystemError(`Mock auth cannot be enabled in production: ${env}`),
+    );
+  }
+  return ok(auth);
+};
@@ -0,0 +1,327 @@
+import { describe, expect, it } from "bun:test";
+import { errAsync, okAsync } from "neverthrow";
+import { newAuthCloudflare } from "../../adapter/auth-cloudflare/index.js";
+import { newAuthMock } from "../../adapter/auth-mock/index.js";
+import { newTestIssuer } from "../../adapter/auth-testkit/index.js";
+import { AuthError, ForbiddenError, SystemError } from "../../error.js";
+import type { Auth, User } from "../../interface.js";
+import {
+  and,
+  chainAuth,
+  envAuth,
+  not,
+  or,
+  type Policy,
+  requireAnyGroup,
+  requireAnyRole,
+  requireClaim,
+  requireEmailDomain,
+  requireGroup,
+  requireRole,
+  requireThat,
+  withPolicy,
+} from "./index.js";
+
+const USER: User = {
+  id: "user-1",
+  mail: "Taro@NW-Union.net",
+  roles: ["admin", "editor"],
+  groups: ["dev"],
+  claims: { tenant: "acme", scopes: ["read", "write"] },
+};
+
+// 拒否された場合は ForbiddenError (AuthError ではない) であること
+const denied = (policy: Policy, user: User = USER) => {
+  const e = policy(user)._unsafeUnwrapErr();
+  expect(e).toBeInstanceOf(ForbiddenError);
+  expect(e).not.toBeInstanceOf(AuthError);
+  return e;
+};
+
+const allowed = (policy: Policy, user: User = USER) =>
+  expect(policy(user)._unsafeUnwrap()).toBe(user);
+
+describe("policy", () => {
+  it("requireRole はロールを持つユーザーのみ許可すること", () => {
+    allowed(requireRole("admin"));
+    expect(denied(requireRole("owner")).message).toBe("Role required: owner");
+    denied(requireRole("admin"), { id: "u", mail: "u@example.com" });
+  });
+
+  it("requireAnyRole はいずれかのロールを持つユーザーを許可すること", () => {
+    allowed(requireAnyRole("owner", "editor"));
+    expect(denied(requireAnyRole("owner", "viewer")).message).toBe(
+      "One of roles required: owner, viewer",
+    );
+  });
+
+  it("requireGroup はグループに所属するユーザーのみ許可すること", () => {
+    allowed(requireGroup("dev"));
+    expect(denied(requireGroup("ops")).message).toBe("Group required: ops");
+    denied(requireGroup("dev"), { id: "u", mail: "u@example.com" });
+  });
+
+  it("requireAnyGroup はいずれかのグループに所属するユーザーを許可すること", () => {
+    allowed(requireAnyGroup("ops", "dev"));
+    expect(denied(requireAnyGroup("ops", "sales")).message).toBe(
+      "One of groups required: ops, sales",
+    );
+  });
+
+  it("requireEmailDomain はドメインを大文字小文字を区別せずに比較すること", () => {
+    allowed(requireEmailDomain("example.com", "nw-union.net"));
+    expect(denied(requireEmailDomain("example.com")).message).toBe(
+      "Email domain required: example.com",
+    );
+    // サブドメインや末尾が一致するだけのドメインは含まない
+    denied(requireEmailDomain("union.net"));
+    denied(requireEmailDomain("nw-union.net"), {
+      id: "u",
+      mail: "u@sub.nw-union.net",
+    });
+  });
+
+  it("requireClaim は値の一致または配列に含まれることで許可すること", () => {
+    allowed(requireClaim("tenant", "acme"));
+    allowed(requireClaim("scopes", "write"));
+    expect(denied(requireClaim("tenant", "other")).message).toBe(
+      "Claim required: tenant=other",
+    );
+    denied(requireClaim("scopes", "admin"));
+    denied(requireClaim("tenant", "acme"), { id: "u", mail: "u@example.com" });
+  });
+
+  it("組み込みのポリシーは拒否の理由を code と params の issues で返すこと", () => {
+    const issueOf = (policy: Policy) => {
+      const { code, params } = denied(policy).issues[0];
+      return { code, params };
+    };
+    expect(issueOf(requireRole("owner"))).toEqual({
+      code: "role_required",
+      params: { roles: ["owner"] },
+    });
+    expect(issueOf(requireAnyGroup("ops", "sales"))).toEqual({
+      code: "group_required",
+      params: { groups: ["ops", "sales"] },
+    });
+    expect(issueOf(requireEmailDomain("example.com"))).toEqual({
+      code: "email_domain_required",
+      params: { domains: ["example.com"] },
+    });
+    expect(issueOf(requireClaim("tenant", "other"))).toEqual({
+      code: "claim_required",
+      params: { name: "tenant", value: "other" },
+    });
+    expect(denied(requireRole("owner")).issues[0].message).toBe(
+      "Role required: owner",
+    );
+  });
+
+  it("requireThat は denial を指定した場合のみ issues を付けること", () => {
+    const never = () => false;
+    expect(denied(requireThat(never, "No")).issues).toEqual([]);
+    expect(
+      denied(requireThat(never, "No", { code: "plan_required" })).issues,
+    ).toEqual([{ path: [], code: "plan_required", message: "No" }]);
+  });
+
+  it("and はすべてのポリシーを満たす場合のみ許可し, 最初の拒否理由を返すこと", () => {
+    allowed(and(requireRole("admin"), requireGroup("dev")));
+    allowed(and());
+    expect(
+      denied(and(requireRole("admin"), requireGroup("ops"), requireRole("x")))
+        .message,
+    ).toBe("Group required: ops");
+  });
+
+  it("or はいずれかを満たせば許可し, すべて拒否した場合は理由を details にまとめること", () => {
+    allowed(or(requireRole("owner"), requireGroup("dev")));
+
+    const e = denied(or(requireRole("owner"), requireGroup("ops")));
+    expect(e.message).toBe("None of the policies allowed access");
+    expect(e.details).toEqual(["Role required: owner", "Group required: ops"]);
+    expect(e.issues.map((i) => i.code)).toEqual([
+      "role_required",
+      "group_required",
+    ]);
+  });
+
+  it("not はポリシーを満たさないユーザーのみ許可すること", () => {
+    allowed(not(requireRole("banned")));
+    expect(denied(not(requireRole("admin"))).message).toBe(
+      "Access denied by policy",
+    );
+    expect(denied(not(requireRole("admin"), "Admins cannot")).message).toBe(
+      "Admins cannot",
+    );
+  });
+});
+
+describe("withPolicy", () => {
+  const authOf = (result: ReturnType<Auth["auth"]>, mock?: boolean): Auth => ({
+    auth: () => result,
+    mock,
+  });
+  const req = new Request("https://app.example.com");
+
+  it("認証したユーザーをポリシーで認可すること", async () => {
+    const auth = withPolicy(authOf(okAsync(USER)), requireRole("admin"));
+    expect((await auth.auth(req))._unsafeUnwrap()).toBe(USER);
+  });
+
+  it("ポリシーで拒否した場合は ForbiddenError を返すこと", async () => {
+    const auth = withPolicy(authOf(okAsync(USER)), requireRole("owner"));
+    const e = (await auth.auth(req))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(ForbiddenError);
+    expect(e.message).toBe("Role required: owner");
+  });
+
+  it("認証に失敗した場合はポリシーを評価せずにそのエラーを返すこと", async () => {
+    let called = false;
+    const auth = withPolicy(
+      authOf(errAsync(new AuthError("No token"))),
+      (u) => {
+        called = true;
+        return requireRole("admin")(u);
+      },
+    );
+    const e = (await auth.auth(req))._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+    expect(called).toBe(false);
+  });
+
+  it("元の Auth の mock を引き継ぐこと", () => {
+    expect(withPolicy(authOf(okAsync(USER), true), and()).mock).toBe(true);
+    expect(withPolicy(authOf(okAsync(USER)), and()).mock).toBeUndefined();
+  });
+});
+
+describe("chainAuth", () => {
+  const authOf = (result: () => ReturnType<Auth["auth"]>): Auth => ({
+    auth: () => result(),
+  });
+  const mockRequest = new Request("https://app.example.com", {
+    headers: { "Mock-Access-Assertion": "mock@example.com" },
+  });
+
+  it("最初に認証できた adapter のユーザーを返すこと", async () => {
+    const auth = chainAuth([
+      authOf(() => errAsync(new AuthError("No token"))),
+      newAuthMock(),
+    ]);
+    const user = (await auth.auth(mockRequest))._unsafeUnwrap();
+    expect(user.mail).toBe("mock@example.com");
+    expect(auth.mock).toBe(true);
+  });
+
+  it("すべて AuthError の場合は理由を details にまとめた AuthError を返すこと", async () => {
+    const auth = chainAuth({
+      apikey: authOf(() => errAsync(new AuthError("No API key"))),
+      mock: newAuthMock(),
+    });
+    const e = (
+      await auth.auth(new Request("https://app.example.com"))
+    )._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(AuthError);
+    expect(e.message).toBe("No auth adapter accepted the request");
+    expect(e.details).toEqual([
+      "apikey: Auth Error: No API key",
+      expect.stringMatching(/^mock: Auth Error: /),
+    ]);
+  });
+
+  it("ForbiddenError は後続の adapter を試さずにそのまま返すこと", async () => {
+    let called = false;
+    const forbidden = new ForbiddenError("Role required: admin");
+    const auth = chainAuth([
+      authOf(() => errAsync(forbidden)),
+      authOf(() => {
+        called = true;
+        return okAsync(USER);
+      }),
+    ]);
+    const e = (await auth.auth(mockRequest))._unsafeUnwrapErr();
+    expect(e).toBe(forbidden);
+    expect(called).toBe(false);
+  });
+
+  it("JWKS の取得に失敗した場合は AuthError ではなく SystemError を返すこと", async () => {
+    const issuer = await newTestIssuer({
+      issuer: "https://team.cloudflareaccess.com",
+      jwksPath: "/cdn-cgi/access/certs",
+    });
+    issuer.setFailing(true);
+    const token = await issuer.sign({ aud: "aud" });
+    const auth = chainAuth({
+      cloudflare: newAuthCloudflare(issuer.issuer, "aud", {
+        fetch: issuer.fetch,
+      }),
+      mock: newAuthMock(),
+    });
+
+    const e = (
+      await auth.auth(
+        new Request("https://app.example.com", {
+          headers: { "Cf-Access-Jwt-Assertion": token },
+        }),
+      )
+    )._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(SystemError);
+    expect(e.details).toEqual([
+      "cloudflare: System Error: Failed to fetch JWKS: Service Unavailable",
+      expect.stringMatching(/^mock: Auth Error: /),
+    ]);
+    expect(e.cause).toBeInstanceOf(SystemError);
+
+    // 後続の adapter で認証できれば障害があってもユーザーを返す
+    const user = (await auth.auth(mockRequest))._unsafeUnwrap();
+    expect(user.mail).toBe("mock@example.com");
+  });
+});
+
+describe("envAuth", () => {
+  const prod: Auth = { auth: () => okAsync(USER) };
+
+  it("環境名に対応する adapter を返すこと. 生成関数は呼び出すこと", () => {
+    const adapters = { production: prod, development: newAuthMock };
+    expect(envAuth({ env: "production", adapters })._unsafeUnwrap()).toBe(prod);
+    expect(
+      envAuth({ env: " development ", adapters })._unsafeUnwrap().mock,
+    ).toBe(true);
+  });
+
+  it("環境名の大文字小文字を区別しないこと", () => {
+    const adapters = { Production: prod, development: newAuthMock };
+    expect(envAuth({ env: "PRODUCTION", adapters })._unsafeUnwrap()).toBe(prod);
+    expect(envAuth({ env: "Development", adapters })._unsafeUnwrap().mock).toBe(
+      true,
+    );
+  });
+
+  it("対応する adapter がない場合は SystemError を返すこと", () => {
+    for (const env of [undefined, "", "staging"]) {
+      const e = envAuth({
+        env,
+        adapters: { production: prod },
+      })._unsafeUnwrapErr();
+      expect(e).toBeInstanceOf(SystemError);
+      expect(e.details).toEqual(["available: production"]);
+    }
+  });
+
+  it("本番環境で mock の adapter を選んだ場合は SystemError を返すこと", () => {
+    const adapters = {
+      Prod: chainAuth([prod, newAuthMock()]),
+      live: newAuthMock,
+    };
+    const e = envAuth({ env: "prod", adapters })._unsafeUnwrapErr();
+    expect(e.message).toBe("Mock auth cannot be enabled in production: prod");
+
+    expect(
+      envAuth({ env: "LIVE", adapters, production: ["Live"] }).isErr(),
+    ).toBe(true);
+    expect(envAuth({ env: "live", adapters, production: [] }).isOk()).toBe(
+      true,
+    );
+  });
+});
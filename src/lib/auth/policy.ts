@@ -0,0 +1,144 @@
+import { err, ok, Result } from "neverthrow";
+import { ForbiddenError } from "../../error.js";
+import type { Auth, User } from "../../interface.js";
+
+/**
+ * 認可ポリシー. 許可すればユーザーを, 拒否すれば ForbiddenError を返す
+ */
+export type Policy = (user: User) => Result<User, ForbiddenError>;
+
+/**
+ * 認証の後にポリシーで認可する Auth を作成する
+ *
+ * @example
+ * ```typescript
+ * const auth = withPolicy(
+ *   newAuthCloudflare(env.TEAM_DOMAIN, env.AUD),
+ *   and(requireEmailDomain("nw-union.net"), requireRole("admin")),
+ * );
+ * ```
+ */
+export const withPolicy = (auth: Auth, policy: Policy): Auth => ({
+  auth: (req: Request) => auth.auth(req).andThen(policy),
+  mock: auth.mock,
+});
+
+// 拒否の理由. lib/i18n で翻訳できるように ForbiddenError の issues に入れる
+export interface PolicyDenial {
+  code: string; // "role_required" など. メッセージコードは "issue.<code>"
+  params?: Record<string, unknown>;
+}
+
+/**
+ * 条件を満たすユーザーを許可するポリシーを作成する
+ *
+ * denial を指定すると, 拒否した ForbiddenError の issues に code と params を付ける
+ */
+export const requireThat =
+  (
+    predicate: (user: User) => boolean,
+    message: string,
+    denial?: PolicyDenial,
+  ): Policy =>
+  (user) =>
+    predicate(user)
+      ? ok(user)
+      : err(
+          new ForbiddenError(
+            message,
+            [],
+            undefined,
+            denial ? [{ path: [], message, ...denial }] : [],
+          ),
+        );
+
+// 指定したロールを持つユーザーを許可する
+export const requireRole = (role: string): Policy =>
+  requireThat(
+    (user) => (user.roles ?? []).includes(role),
+    `Role required: ${role}`,
+    { code: "role_required", params: { roles: [role] } },
+  );
+
+// 指定したロールのいずれかを持つユーザーを許可する
+export const requireAnyRole = (...roles: string[]): Policy =>
+  requireThat(
+    (user) => roles.some((role) => (user.roles ?? []).includes(role)),
+    `One of roles required: ${roles.join(", ")}`,
+    { code: "role_required", params: { roles } },
+  );
+
+// 指定したグループに所属するユーザーを許可する
+export const requireGroup = (group: string): Policy =>
+  requireThat(
+    (user) => (user.groups ?? []).includes(group),
+    `Group required: ${group}`,
+    { code: "group_required", params: { groups: [group] } },
+  );
+
+// 指定したグループのいずれかに所属するユーザーを許可する
+export const requireAnyGroup = (...groups: string[]): Policy =>
+  requireThat(
+    (user) => groups.some((group) => (user.groups ?? []).includes(group)),
+    `One of groups required: ${groups.join(", ")}`,
+    { code: "group_required", params: { groups } },
+  );
+
+// メールアドレスのドメインが一致するユーザーを許可する (サブドメインは含まない)
+export const requireEmailDomain = (...domains: string[]): Policy =>
+  requireThat(
+    (user) =>
+      domains.some((domain) =>
+        user.mail.toLowerCase().endsWith(`@${domain.toLowerCase()}`),
+      ),
+    `Email domain required: ${domains.join(", ")}`,
+    { code: "email_domain_required", params: { domains } },
+  );
+
+// claims の値が一致するユーザーを許可する. 値が配列の場合は含まれていれば許可する
+export const requireClaim = (name: string, value: unknown): Policy =>
+  requireThat(
+    (user) => {
+      const claim = user.claims?.[name];
+      return Array.isArray(claim) ? claim.includes(value) : claim === value;
+    },
+    `Claim required: ${name}=${String(value)}`,
+    { code: "claim_required", params: { name, value } },
+  );
+
+// すべてのポリシーを満たすユーザーを許可する
+export const and =
+  (...policies: Policy[]): Policy =>
+  (user) =>
+    policies.reduce<Result<User, ForbiddenError>>(
+      (acc, policy) => acc.andThen(policy),
+      ok(user),
+    );
+
+// いずれかのポリシーを満たすユーザーを許可する. すべて拒否した場合は理由を details と issues にまとめる
+export const or =
+  (...policies: Policy[]): Policy =>
+  (user) => {
+    const errors: ForbiddenError[] = [];
+    for (const policy of policies) {
+      const result = policy(user);
+      if (result.isOk()) {
+        return result;
+      }
+      errors.push(result.error);
+    }
+    return err(
+      new ForbiddenError(
+        "None of the policies allowed access",
+        errors.map((e) => e.message),
+        undefined,
+        errors.flatMap((e) => e.issues),
+      ),
+    );
+  };
+
+// ポリシーを満たさないユーザーを許可する
+export const not =
+  (policy: Policy, message = "Access denied by policy"): Policy =>
+  (user) =>
+    policy(user).isOk() ? err(new ForbiddenError(message)) : ok(user);
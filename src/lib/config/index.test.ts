@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+import { inspect } from "node:util";
+import { z } from "zod";
+import { ValidationError } from "../../error.js";
+import { newRedactor, REDACTED } from "../log/index.js";
+import {
+  configUrlSchema,
+  durationSchema,
+  loadConfig,
+  logLevelSchema,
+  parseDuration,
+  secret,
+} from "./index.js";
+
+const schema = {
+  TEAM_DOMAIN: configUrlSchema(),
+  AUD: secret(z.string().min(1)),
+  LOG_LEVEL: logLevelSchema(),
+  SESSION_TTL: durationSchema().default(3_600_000),
+};
+
+describe("loadConfig", () => {
+  it("すべての環境変数を検証して設定を返すこと", () => {
+    const config = loadConfig(schema, {
+      TEAM_DOMAIN: "https://example.cloudflareaccess.com/",
+      AUD: "aud-123",
+      LOG_LEVEL: "warn,auth=debug",
+      SESSION_TTL: "5m",
+      OTHER: "ignored",
+    })._unsafeUnwrap();
+
+    expect(config.TEAM_DOMAIN).toBe("https://example.cloudflareaccess.com");
+    expect(config.AUD).toBe("aud-123");
+    expect(config.LOG_LEVEL.level()).toBe("warn");
+    expect(config.LOG_LEVEL.level("auth.jwt")).toBe("debug");
+    expect(config.SESSION_TTL).toBe(300_000);
+    expect(Object.keys(config)).not.toContain("OTHER");
+  });
+
+  it("省略可能な値にはデフォルトを使うこと", () => {
+    const config = loadConfig(schema, {
+      TEAM_DOMAIN: "https://example.cloudflareaccess.com",
+      AUD: "aud-123",
+    })._unsafeUnwrap();
+
+    expect(config.LOG_LEVEL.level()).toBe("info");
+    expect(config.SESSION_TTL).toBe(3_600_000);
+  });
+
+  it("足りないキーと不正なキーをすべて 1 つのエラーにまとめること", () => {
+    const e = loadConfig(schema, {
+      TEAM_DOMAIN: "ftp://example.com",
+      LOG_LEVEL: "verbose",
+      SESSION_TTL: "5 minutes",
+    })._unsafeUnwrapErr();
+
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("multiple types are invalid");
+    expect(e.issues.map((i) => [i.path, i.code])).toEqual([
+      [["TEAM_DOMAIN"], "invalid_format"],
+      [["AUD"], "missing"],
+      [["LOG_LEVEL"], "invalid_log_level"],
+      [["SESSION_TTL"], "invalid_duration"],
+    ]);
+    expect(e.details).toEqual([
+      expect.stringMatching(/^TEAM_DOMAIN: /),
+      "AUD: Missing required binding",
+      "LOG_LEVEL: Unknown log level: verbose",
+      "SESSION_TTL: Invalid duration: 5 minutes",
+    ]);
+  });
+
+  it("secret の値は出力時に [REDACTED] になること", () => {
+    const config = loadConfig(schema, {
+      TEAM_DOMAIN: "https://example.cloudflareaccess.com",
+      AUD: "aud-123",
+    })._unsafeUnwrap();
+
+    expect(JSON.parse(JSON.stringify(config)).AUD).toBe(REDACTED);
+    expect(inspect(config)).not.toContain("aud-123");
+    expect(newRedactor().value({ config })).toMatchObject({
+      config: { AUD: REDACTED, TEAM_DOMAIN: config.TEAM_DOMAIN },
+    });
+  });
+});
+
+describe("parseDuration", () => {
+  it("単位付きの時間をミリ秒にすること", () => {
+    expect(parseDuration("500ms")._unsafeUnwrap()).toBe(500);
+    expect(parseDuration("30s")._unsafeUnwrap()).toBe(30_000);
+    expect(parseDuration("1h30m")._unsafeUnwrap()).toBe(5_400_000);
+    expect(parseDuration("1.5d")._unsafeUnwrap()).toBe(129_600_000);
+    expect(parseDuration("1000")._unsafeUnwrap()).toBe(1000);
+    expect(parseDuration(250)._unsafeUnwrap()).toBe(250);
+  });
+
+  it("不正な時間はエラーにすること", () => {
+    for (const v of ["m", "5x", "5m 3s", "-1s"]) {
+      expect(parseDuration(v).isErr()).toBe(true);
+    }
+    expect(parseDuration("").isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+import { mergeValidationError, ValidationError } from "../../error.js";
+import type { LogThreshold } from "../../interface.js";
+import {
+  type LogLevels,
+  newLogLevels,
+  parseLogLevelSpec,
+  REDACTED,
+} from "../log/index.js";
+import { newType, typeValidationError } from "../zod/index.js";
+
+// 環境変数 (Workers の env バインディング) ごとのスキーマ
+export type ConfigSchema = Record<string, z.ZodTypeAny>;
+
+// ConfigSchema から検証後の設定の型を作る
+export type Config<S extends ConfigSchema> = {
+  [K in keyof S]: z.infer<S[K]>;
+};
+
+// secret で登録したスキーマ
+const SECRETS = new WeakSet<z.ZodTypeAny>();
+
+const INSPECT = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * スキーマを秘密の値としてマークする
+ *
+ * loadConfig で読み込んだ設定を JSON やログ, console.log で出力すると [REDACTED] になる
+ * optional / default などを付けたスキーマは別のスキーマになるので, secret は最後に付ける
+ *
+ * @example
+ * ```typescript
+ * const schema = { API_KEY: secret(z.string().min(32)) };
+ * ```
+ */
+export const secret = <T extends z.ZodTypeAny>(schema: T): T => {
+  SECRETS.add(schema);
+  return schema;
+};
+
+/**
+ * 環境変数をまとめて検証して設定を作る
+ *
+ * 最初のエラーで止めずにすべてのキーを検証し, 足りないキーや不正なキーを 1 つの ValidationError にまとめる
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   TEAM_DOMAIN: configUrlSchema(),
+ *   AUD: secret(z.string().min(1)),
+ *   LOG_LEVEL: logLevelSchema(),
+ *   SESSION_TTL: durationSchema().default(3_600_000),
+ * };
+ *
+ * export default {
+ *   fetch: (req: Request, env: Record<string, unknown>) =>
+ *     loadConfig(schema, env).map((config) => {
+ *       const auth = newAuthCloudflare(config.TEAM_DOMAIN, config.AUD);
+ *       const logger = newLogJson(config.LOG_LEVEL);
+ *       ...
+ *     }),
+ * };
+ * ```
+ */
+export const loadConfig = <S extends ConfigSchema>(
+  schema: S,
+  env: Record<string, unknown>,
+): Result<Config<S>, ValidationError> => {
+  const errors: ValidationError[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [key, s] of Object.entries(schema)) {
+    const result = newType(s, "Env")(env[key], key);
+    if (result.isOk()) {
+      values[key] = result.value;
+    } else if (env[key] === undefined) {
+      errors.push(
+        typeValidationError(
+          "Env",
+          [
+            {
+              path: [key],
+              code: "missing",
+              message: "Missing required binding",
+            },
+          ],
+          key,
+        ),
+      );
+    } else {
+      errors.push(prefixIssues(key, result.error));
+    }
+  }
+
+  return errors.length > 0
+    ? err(mergeValidationError(errors))
+    : ok(withSecrets(schema, values) as Config<S>);
+};
+
+/**
+ * 設定値の URL のスキーマ (http / https のみ). 末尾の / は取り除く
+ *
+ * lib/vo の urlSchema (branded な Url) と違い, 結合しやすい string にする
+ *
+ * @example
+ * ```typescript
+ * configUrlSchema().parse("https://example.cloudflareaccess.com/"); // "https://example.cloudflareaccess.com"
+ * ```
+ */
+export const configUrlSchema = () =>
+  z.url({ protocol: /^https?$/ }).transform((s) => s.replace(/\/+$/, ""));
+
+/**
+ * 時間のスキーマ. "500ms", "30s", "5m", "1h", "1d" または数値 (ミリ秒) をミリ秒にする
+ */
+export const durationSchema = () =>
+  z.union([z.number().nonnegative(), z.string()]).transform((v, ctx) => {
+    const ms = parseDuration(v);
+    if (ms.isErr()) {
+      ctx.issues.push({
+        code: "custom",
+        message: ms.error.details[0],
+        input: v,
+        params: { code: "invalid_duration", value: v },
+      });
+      return z.NEVER;
+    }
+    return ms.value;
+  });
+
+/**
+ * LOG_LEVEL のスキーマ. "info,auth=debug" の形式の設定を LogLevels にする
+ *
+ * 値がない場合は fallback のレベルを使う
+ *
+ * @example
+ * ```typescript
+ * const config = loadConfig({ LOG_LEVEL: logLevelSchema() }, env);
+ * newLogJson(config.LOG_LEVEL);
+ * ```
+ */
+export const logLevelSchema = (fallback: LogThreshold = "info") =>
+  z
+    .string()
+    .optional()
+    .transform((v, ctx): LogLevels => {
+      if (v === undefined || v.trim() === "") {
+        return newLogLevels(fallback);
+      }
+      const spec = parseLogLevelSpec(v, fallback);
+      if (spec.isErr()) {
+        for (const message of spec.error.details) {
+          ctx.issues.push({
+            code: "custom",
+            message,
+            input: v,
+            params: { code: "invalid_log_level", value: v },
+          });
+        }
+        return z.NEVER;
+      }
+      return newLogLevels(spec.value);
+    });
+
+/**
+ * 時間の文字列をミリ秒にする
+ *
+ * @example
+ * ```typescript
+ * parseDuration("5m"); // ok(300000)
+ * parseDuration("1h30m"); // ok(5400000)
+ * ```
+ */
+export const parseDuration = (
+  v: string | number,
+): Result<number, ValidationError> => {
+  if (typeof v === "number") {
+    return ok(v);
+  }
+  const s = v.trim();
+  if (/^\d+$/.test(s)) {
+    return ok(Number(s));
+  }
+  const parts = [...s.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d)/g)];
+  if (parts.length === 0 || parts.map(([p]) => p).join("") !== s) {
+    return err(
+      new ValidationError("Invalid duration", [`Invalid duration: ${v}`]),
+    );
+  }
+  return ok(
+    Math.round(
+      parts.reduce(
+        (acc, [, n, unit]) => acc + Number(n) * DURATION_UNITS[unit],
+        0,
+      ),
+    ),
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// issues の path の先頭にキーを付ける
+const prefixIssues = (key: string, e: ValidationError): ValidationError =>
+  new ValidationError(
+    e.message,
+    e.details,
+    e.cause,
+    e.issues.map((i) => ({ ...i, path: [key, ...i.path] })),
+  );
+
+// secret のキーを出力時に [REDACTED] にする
+const withSecrets = (
+  schema: ConfigSchema,
+  values: Record<string, unknown>,
+): Record<string, unknown> => {
+  const redacted = () =>
+    Object.fromEntries(
+      Object.entries(values).map(([k, v]) => [
+        k,
+        SECRETS.has(schema[k]) ? REDACTED : v,
+      ]),
+    );
+  const config = { ...values };
+  Object.defineProperties(config, {
+    toJSON: { value: redacted },
+    [INSPECT]: { value: redacted },
+  });
+  return config;
+};
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type AppError,
+  AuthError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  SystemError,
+  TimeoutError,
+  UnavailableError,
+  ValidationError,
+} from "../../error.js";
+import { fromResponse, type ProblemDetails, toResponse } from "./index.js";
+
+const ERRORS: [AppError, number][] = [
+  [new ValidationError("invalid", ["name: required"]), 400],
+  [new AuthError("no token"), 401],
+  [new ForbiddenError("role required"), 403],
+  [new NotFoundError("user not found"), 404],
+  [new ConflictError("already exists"), 409],
+  [new RateLimitError("too many requests", 30), 429],
+  [new SystemError("db down"), 500],
+  [new UnavailableError("upstream down"), 503],
+  [new TimeoutError("upstream timed out"), 504],
+];
+
+const bodyOf = (res: Response) => res.json() as Promise<ProblemDetails>;
+
+describe("toResponse", () => {
+  for (const [e, status] of ERRORS) {
+    it(`${e.code} を ${status} の problem+json にすること`, async () => {
+      const res = toResponse(e);
+      expect(res.status).toBe(status);
+      expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+
+      const body = await bodyOf(res);
+      expect(body.status).toBe(status);
+      expect(body.code).toBe(e.code);
+      expect(body.title).toBe(e.code);
+      expect(body.type).toStartWith("urn:nwu:problem:");
+    });
+  }
+
+  it("UserError は message と details を返すこと", async () => {
+    const body = await bodyOf(
+      toResponse(new NotFoundError("user not found", ["id: 1"]), {
+        instance: "/users/1",
+      }),
+    );
+    expect(body).toMatchObject({
+      detail: "user not found",
+      details: ["id: 1"],
+      instance: "/users/1",
+    });
+    expect(body.stack).toBeUndefined();
+  });
+
+  it("SystemError は debug でない限り内容を隠すこと", async () => {
+    const e = new TimeoutError("db timed out", ["host: db.internal"]);
+
+    const hidden = await bodyOf(toResponse(e));
+    expect(hidden.detail).toBe("An internal error occurred");
+    expect(hidden.details).toEqual([]);
+    expect(hidden.stack).toBeUndefined();
+
+    const debug = await bodyOf(toResponse(e, { debug: true }));
+    expect(debug.detail).toBe("db timed out");
+    expect(debug.details).toEqual(["host: db.internal"]);
+    expect(debug.stack).toBe(e.stack);
+  });
+
+  it("RateLimitError は Retry-After ヘッダを秒数 (切り上げ) で返すこと", async () => {
+    const res = toResponse(new RateLimitError("slow down", 1.2));
+    expect(res.headers.get("Retry-After")).toBe("2");
+    expect((await bodyOf(res)).retryAfter).toBe(1.2);
+
+    const noWait = toResponse(new RateLimitError("slow down"));
+    expect(noWait.headers.has("Retry-After")).toBe(false);
+  });
+
+  it("ValidationError は issues を返すこと", async () => {
+    const issues = [
+      { path: ["name"], code: "too_small", message: "Too small" },
+    ];
+    const body = await bodyOf(
+      toResponse(new ValidationError("invalid", [], undefined, issues)),
+    );
+    expect(body.issues).toEqual(issues);
+  });
+
+  it("ValidationError 以外の issues も返し, 隠す SystemError の issues は返さないこと", async () => {
+    const issues = [
+      {
+        path: [],
+        code: "scope_required",
+        message: "x",
+        params: { scopes: ["cron"] },
+      },
+    ];
+    const forbidden = await bodyOf(
+      toResponse(new ForbiddenError("forbidden", [], undefined, issues)),
+    );
+    expect(forbidden.issues).toEqual(issues);
+
+    const system = new SystemError("db down", [], undefined, issues);
+    expect((await bodyOf(toResponse(system))).issues).toBeUndefined();
+    expect((await bodyOf(toResponse(system, { debug: true }))).issues).toEqual(
+      issues,
+    );
+
+    expect((await bodyOf(toResponse(new NotFoundError("x")))).issues).toBe(
+      undefined,
+    );
+  });
+
+  it("headers を追加しても Content-Type は problem+json にすること", () => {
+    const res = toResponse(new AuthError("no token"), {
+      headers: {
+        "Content-Type": "text/plain",
+        "WWW-Authenticate": "Bearer",
+      },
+    });
+    expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+    expect(res.headers.get("WWW-Authenticate")).toBe("Bearer");
+  });
+});
+
+describe("fromResponse", () => {
+  for (const [e] of ERRORS) {
+    it(`toResponse した ${e.code} を同じクラスに戻すこと`, async () => {
+      const back = (
+        await fromResponse(toResponse(e, { debug: true }))
+      )._unsafeUnwrapErr();
+      expect(back).toBeInstanceOf(e.constructor as typeof AppError);
+      expect(back.code).toBe(e.code);
+      expect(back.message).toBe(e.message);
+      expect(back.details).toEqual(e.details);
+    });
+  }
+
+  it("RateLimitError の retryAfter と issues を戻すこと", async () => {
+    const rate = (
+      await fromResponse(toResponse(new RateLimitError("slow down", 30)))
+    )._unsafeUnwrapErr();
+    expect(rate).toBeInstanceOf(RateLimitError);
+    expect((rate as RateLimitError).retryAfter).toBe(30);
+
+    const issues = [{ path: ["email"], code: "invalid_format", message: "x" }];
+    const validation = (
+      await fromResponse(
+        toResponse(new ValidationError("invalid", [], undefined, issues)),
+      )
+    )._unsafeUnwrapErr();
+    expect(validation).toBeInstanceOf(ValidationError);
+    expect((validation as ValidationError).issues).toEqual(issues);
+
+    const forbidden = (
+      await fromResponse(
+        toResponse(new ForbiddenError("forbidden", [], undefined, issues)),
+      )
+    )._unsafeUnwrapErr();
+    expect(forbidden).toBeInstanceOf(ForbiddenError);
+    expect(forbidden.issues).toEqual(issues);
+  });
+
+  it("problem+json でないレスポンスは HTTP ステータスからエラーを選ぶこと", async () => {
+    const notFound = (
+      await fromResponse(
+        new Response("<html>Not Found</html>", {
+          status: 404,
+          statusText: "Not Found",
+          headers: { "Content-Type": "text/html" },
+        }),
+      )
+    )._unsafeUnwrapErr();
+    expect(notFound).toBeInstanceOf(NotFoundError);
+    expect(notFound.message).toBe("404 Not Found");
+
+    const limited = (
+      await fromResponse(
+        new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "120" },
+        }),
+      )
+    )._unsafeUnwrapErr();
+    expect(limited).toBeInstanceOf(RateLimitError);
+    expect((limited as RateLimitError).retryAfter).toBe(120);
+  });
+
+  it("未知のステータスや壊れた JSON は SystemError にすること", async () => {
+    const gateway = (
+      await fromResponse(
+        new Response("{", {
+          status: 502,
+          statusText: "Bad Gateway",
+          headers: { "Content-Type": "application/problem+json" },
+        }),
+      )
+    )._unsafeUnwrapErr();
+    expect(gateway.constructor).toBe(SystemError);
+    expect(gateway.message).toBe("502 Bad Gateway");
+  });
+});
@@ -0,0 +1,228 @@
+import { errAsync, ResultAsync } from "neverthrow";
+import {
+  type AppError,
+  AuthError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  SystemError,
+  TimeoutError,
+  UnavailableError,
+  ValidationError,
+  type ValidationIssue,
+} from "../../error.js";
+
+/**
+ * RFC 7807 problem+json
+ *
+ * code / details は NWU 独自の拡張メンバー
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  code?: string;
+  details?: string[];
+  retryAfter?: number; // RateLimitError の場合のみ
+  issues?: ValidationIssue[]; // issues を持つエラーの場合のみ (SystemError は debug の場合のみ)
+  stack?: string; // debug の場合のみ
+}
+
+export interface ToResponseOptions {
+  debug?: boolean; // true の場合, SystemError の内容も返す
+  instance?: string; // 問題が発生したリソース (リクエストのパスなど)
+  headers?: HeadersInit; // 追加のレスポンスヘッダ
+}
+
+const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+// エラーコードごとの HTTP ステータスと problem type
+const PROBLEMS: Record<
+  string,
+  { status: number; type: string; create: AppErrorFactory }
+> = {
+  "Validation Error": {
+    status: 400,
+    type: "urn:nwu:problem:validation-error",
+    create: (message, details, _, issues) =>
+      new ValidationError(message, details, undefined, issues),
+  },
+  "Auth Error": {
+    status: 401,
+    type: "urn:nwu:problem:auth-error",
+    create: (message, details, _, issues) =>
+      new AuthError(message, details, undefined, issues),
+  },
+  "Forbidden Error": {
+    status: 403,
+    type: "urn:nwu:problem:forbidden-error",
+    create: (message, details, _, issues) =>
+      new ForbiddenError(message, details, undefined, issues),
+  },
+  "NotFound Error": {
+    status: 404,
+    type: "urn:nwu:problem:not-found-error",
+    create: (message, details, _, issues) =>
+      new NotFoundError(message, details, undefined, issues),
+  },
+  "Conflict Error": {
+    status: 409,
+    type: "urn:nwu:problem:conflict-error",
+    create: (message, details, _, issues) =>
+      new ConflictError(message, details, undefined, issues),
+  },
+  "RateLimit Error": {
+    status: 429,
+    type: "urn:nwu:problem:rate-limit-error",
+    create: (message, details, retryAfter, issues) =>
+      new RateLimitError(message, retryAfter, details, undefined, issues),
+  },
+  "System Error": {
+    status: 500,
+    type: "urn:nwu:problem:system-error",
+    create: (message, details, _, issues) =>
+      new SystemError(message, details, undefined, issues),
+  },
+  "Unavailable Error": {
+    status: 503,
+    type: "urn:nwu:problem:unavailable-error",
+    create: (message, details, _, issues) =>
+      new UnavailableError(message, details, undefined, issues),
+  },
+  "Timeout Error": {
+    status: 504,
+    type: "urn:nwu:problem:timeout-error",
+    create: (message, details, _, issues) =>
+      new TimeoutError(message, details, undefined, issues),
+  },
+};
+
+type AppErrorFactory = (
+  message: string,
+  details: string[],
+  retryAfter?: number,
+  issues?: ValidationIssue[],
+) => AppError;
+
+/**
+ * AppError を application/problem+json のレスポンスに変換する
+ *
+ * SystemError (および未知のエラー) は debug でない限り内容を隠す
+ *
+ * @example
+ * ```typescript
+ * return result.match(
+ *   (body) => Response.json(body),
+ *   (e) => toResponse(e, { instance: new URL(req.url).pathname }),
+ * );
+ * ```
+ */
+export const toResponse = (
+  e: AppError,
+  opts: ToResponseOptions = {},
+): Response => {
+  const problem = problemOf(e.code) ?? PROBLEMS["System Error"];
+  const hidden = problem.status >= 500 && !opts.debug;
+  const body: ProblemDetails = {
+    type: problem.type,
+    title: e.code,
+    status: problem.status,
+    detail: hidden ? "An internal error occurred" : e.message,
+    instance: opts.instance,
+    code: e.code,
+    details: hidden ? [] : e.details,
+    retryAfter: e instanceof RateLimitError ? e.retryAfter : undefined,
+    issues:
+      hidden || (e.issues.length === 0 && !(e instanceof ValidationError))
+        ? undefined
+        : e.issues,
+    stack: opts.debug ? e.stack : undefined,
+  };
+  const headers = new Headers(opts.headers);
+  headers.set("Content-Type", PROBLEM_CONTENT_TYPE);
+  if (body.retryAfter !== undefined) {
+    headers.set("Retry-After", String(Math.ceil(body.retryAfter)));
+  }
+  return new Response(JSON.stringify(body), {
+    status: problem.status,
+    headers,
+  });
+};
+
+/**
+ * 他の NWU サービスのエラーレスポンスを AppError に戻す
+ *
+ * problem+json であれば code (なければ type, status) から元のエラークラスを選ぶ.
+ * problem+json でなければ HTTP ステータスから選ぶ
+ *
+ * @example
+ * ```typescript
+ * ResultAsync.fromPromise(fetch(url), toSystemError).andThen((res) =>
+ *   res.ok ? okAsync(res) : fromResponse(res),
+ * );
+ * ```
+ */
+export const fromResponse = (res: Response): ResultAsync<never, AppError> =>
+  ResultAsync.fromSafePromise(readProblem(res)).andThen((problem) =>
+    errAsync(toAppError(res, problem)),
+  );
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const problemOf = (code: unknown) =>
+  typeof code === "string" &&
+  Object.prototype.hasOwnProperty.call(PROBLEMS, code)
+    ? PROBLEMS[code]
+    : undefined;
+
+const readProblem = async (
+  res: Response,
+): Promise<Partial<ProblemDetails> | undefined> => {
+  const contentType = res.headers.get("Content-Type") ?? "";
+  if (!/^application\/(problem\+)?json/i.test(contentType)) {
+    return undefined;
+  }
+  try {
+    const body = await res.json();
+    return body && typeof body === "object"
+      ? (body as Partial<ProblemDetails>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const toAppError = (
+  res: Response,
+  problem: Partial<ProblemDetails> | undefined,
+): AppError => {
+  const byCode = problemOf(problem?.code);
+  const byType = Object.values(PROBLEMS).find((p) => p.type === problem?.type);
+  const byStatus = Object.values(PROBLEMS).find((p) => p.status === res.status);
+  const { create } = byCode ?? byType ?? byStatus ?? PROBLEMS["System Error"];
+  const message =
+    problem?.detail ?? problem?.title ?? `${res.status} ${res.statusText}`;
+  const details = Array.isArray(problem?.details)
+    ? problem.details.filter((d): d is string => typeof d === "string")
+    : [];
+  const retryAfter =
+    typeof problem?.retryAfter === "number"
+      ? problem.retryAfter
+      : parseRetryAfter(res.headers.get("Retry-After"));
+  const issues = Array.isArray(problem?.issues) ? problem.issues : undefined;
+  return create(message, details, retryAfter, issues);
+};
+
+// Retry-After ヘッダ (秒数 または HTTP 日付) を秒数にする
+const parseRetryAfter = (v: string | null): number | undefined => {
+  if (!v) return undefined;
+  if (/^\d+$/.test(v.trim())) return Number(v.trim());
+  const date = Date.parse(v);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
@@ -0,0 +1,256 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import {
+  AuthError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from "../../error.js";
+import { durationSchema, loadConfig } from "../config/index.js";
+import { newType, validateObject } from "../zod/index.js";
+import {
+  DEFAULT_MESSAGES,
+  localize,
+  MESSAGE_CODES,
+  newLocalizer,
+} from "./index.js";
+
+const validateUser = validateObject({
+  name: newType(z.string().min(3), "Name"),
+  email: newType(z.email(), "Email"),
+  age: newType(z.number().int().max(150), "Age"),
+  role: newType(z.enum(["admin", "member"]), "Role"),
+});
+
+describe("メッセージカタログ", () => {
+  it("すべてのメッセージコードに ja と en の翻訳があること", () => {
+    for (const locale of ["ja", "en"]) {
+      const missing = MESSAGE_CODES.filter(
+        (code) => DEFAULT_MESSAGES[locale][code] === undefined,
+      );
+      expect({ locale, missing }).toEqual({ locale, missing: [] });
+      expect(Object.keys(DEFAULT_MESSAGES[locale]).sort()).toEqual(
+        [...MESSAGE_CODES].sort(),
+      );
+    }
+  });
+
+  it("すべてのメッセージコードが空でない文を返すこと", () => {
+    const i18n = newLocalizer();
+    for (const locale of ["ja", "en"]) {
+      for (const code of MESSAGE_CODES) {
+        expect(i18n.message(code, {}, locale)).toBeTruthy();
+      }
+    }
+  });
+});
+
+describe("localize", () => {
+  const e = validateUser({
+    name: "ab",
+    email: "invalid",
+    age: 200,
+    role: "guest",
+  })._unsafeUnwrapErr();
+
+  it("zod の issue に code と params を持たせること", () => {
+    expect(e.issues.map((i) => [i.code, i.params])).toEqual([
+      ["too_small", { origin: "string", minimum: 3, inclusive: true }],
+      ["invalid_format", { origin: "string", format: "email" }],
+      ["too_big", { origin: "number", maximum: 150, inclusive: true }],
+      ["invalid_value", { values: ["admin", "member"] }],
+    ]);
+  });
+
+  it("ValidationError を日本語にすること", () => {
+    expect(localize(e, "ja")).toEqual({
+      code: "Validation Error",
+      message: "入力内容が正しくありません",
+      details: [
+        "name: 3 文字以上で入力してください",
+        "email: メールアドレス の形式で入力してください",
+        "age: 150 以下の値を入力してください",
+        "role: admin, member のいずれかを指定してください",
+      ],
+      issues: [
+        {
+          path: ["name"],
+          code: "too_small",
+          message: "3 文字以上で入力してください",
+        },
+        {
+          path: ["email"],
+          code: "invalid_format",
+          message: "メールアドレス の形式で入力してください",
+        },
+        {
+          path: ["age"],
+          code: "too_big",
+          message: "150 以下の値を入力してください",
+        },
+        {
+          path: ["role"],
+          code: "invalid_value",
+          message: "admin, member のいずれかを指定してください",
+        },
+      ],
+    });
+  });
+
+  it("ValidationError を英語にすること", () => {
+    expect(localize(e, "en").details).toEqual([
+      "name: Must be at least 3 characters",
+      "email: Must be an email address",
+      "age: Must be at most 150",
+      "role: Must be one of admin, member",
+    ]);
+  });
+
+  it("地域付きのロケールは言語のメッセージを使い, 未知のロケールは en にすること", () => {
+    expect(localize(e, "ja-JP").message).toBe("入力内容が正しくありません");
+    expect(localize(e, "fr").message).toBe("The input is invalid");
+  });
+
+  it("path がない issue は型名を付け, ネストした path をつなぐこと", () => {
+    const single = newType(z.string().min(1), "Name")("")._unsafeUnwrapErr();
+    expect(localize(single, "ja").details).toEqual(["Name: 入力してください"]);
+
+    const nested = new ValidationError("invalid", [], undefined, [
+      {
+        path: ["items", 0, "price"],
+        code: "invalid_type",
+        message: "x",
+        params: { expected: "number" },
+      },
+    ]);
+    expect(localize(nested, "ja").details).toEqual([
+      "items[0].price: 数値 を入力してください",
+    ]);
+  });
+
+  it("NWU 独自の issue も翻訳すること", () => {
+    const config = loadConfig(
+      { AUD: z.string(), TTL: durationSchema() },
+      { TTL: "5 minutes" },
+    )._unsafeUnwrapErr();
+
+    expect(localize(config, "ja").details).toEqual([
+      "AUD: 必須です",
+      'TTL: 時間の形式が正しくありません ("5m", "1h30m" など): 5 minutes',
+    ]);
+  });
+
+  it("ValidationError 以外のエラーも issues の code と params で翻訳すること", () => {
+    const e = new ForbiddenError(
+      "None of the policies allowed access",
+      [],
+      undefined,
+      [
+        {
+          path: [],
+          code: "role_required",
+          message: "Role required: admin",
+          params: { roles: ["admin"] },
+        },
+        {
+          path: [],
+          code: "group_required",
+          message: "One of groups required: dev, ops",
+          params: { groups: ["dev", "ops"] },
+        },
+      ],
+    );
+
+    expect(localize(e, "ja")).toEqual({
+      code: "Forbidden Error",
+      message: "この操作を行う権限がありません",
+      details: [
+        "admin のロールが必要です",
+        "dev, ops のいずれかのグループへの所属が必要です",
+      ],
+      issues: [
+        {
+          path: [],
+          code: "role_required",
+          message: "admin のロールが必要です",
+        },
+        {
+          path: [],
+          code: "group_required",
+          message: "dev, ops のいずれかのグループへの所属が必要です",
+        },
+      ],
+    });
+    expect(localize(e, "en").details).toEqual([
+      "Role required: admin",
+      "One of groups required: dev, ops",
+    ]);
+  });
+
+  it("issues のないエラーはエラーの種類のメッセージにして翻訳できない details は返さないこと", () => {
+    expect(
+      localize(new NotFoundError("user not found", ["id: 1"]), "ja"),
+    ).toEqual({
+      code: "NotFound Error",
+      message: "対象が見つかりません",
+      details: [],
+      issues: [],
+    });
+    // issues のない ValidationError も details は返さない
+    expect(
+      localize(new ValidationError("invalid", ["name: required"]), "ja"),
+    ).toMatchObject({ message: "入力内容が正しくありません", details: [] });
+    expect(localize(new AuthError("no token"), "en").message).toBe(
+      "Authentication required",
+    );
+    expect(localize(new RateLimitError("too many", 30), "ja").message).toBe(
+      "リクエストが多すぎます. 30 秒後に再度お試しください",
+    );
+  });
+});
+
+describe("newLocalizer", () => {
+  it("アプリごとのメッセージを追加, 上書きできること", () => {
+    const i18n = newLocalizer({
+      ja: {
+        "error.validation": "入力をご確認ください",
+        "issue.invalid_slug":
+          "{field} は英小文字, 数字, ハイフンで入力してください",
+      },
+      en: { "issue.invalid_slug": "{field} must be a slug" },
+    });
+    const e = new ValidationError("invalid", [], undefined, [
+      {
+        path: ["slug"],
+        code: "invalid_slug",
+        message: "x",
+        params: { field: "URL" },
+      },
+    ]);
+
+    expect(i18n.localize(e, "ja")).toMatchObject({
+      message: "入力をご確認ください",
+      details: ["slug: URL は英小文字, 数字, ハイフンで入力してください"],
+    });
+    expect(i18n.localize(e, "en").details).toEqual([
+      "slug: URL must be a slug",
+    ]);
+    expect(localize(e, "ja").details).toEqual(["slug: x"]); // 組み込みは変わらない
+  });
+
+  it("ロケールを追加できること", () => {
+    const i18n = newLocalizer(
+      { fr: { "error.not_found": "Introuvable" } },
+      "ja",
+    );
+
+    expect(i18n.locales()).toEqual(["ja", "en", "fr"]);
+    expect(i18n.localize(new NotFoundError("x"), "fr").message).toBe(
+      "Introuvable",
+    );
+    expect(i18n.localize(new AuthError("x"), "fr").message).toBe(
+      "認証が必要です",
+    );
+  });
+});
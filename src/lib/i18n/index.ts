@@ -0,0 +1,172 @@
+import {
+  type AppError,
+  matchError,
+  RateLimitError,
+  type ValidationIssue,
+} from "../../error.js";
+import { MESSAGES_EN, MESSAGES_JA, type Message } from "./messages.js";
+
+export * from "./messages.js";
+
+export type Locale = string; // "ja", "en" など
+
+// ロケールごとのメッセージ. キーはメッセージコード ("error.validation", "issue.too_small" など)
+export type MessageCatalog = Record<Locale, Record<string, Message>>;
+
+export interface LocalizedIssue {
+  path: (string | number)[];
+  code: string;
+  message: string;
+}
+
+export interface LocalizedError {
+  code: string; // AppError の code
+  message: string; // エラーの種類ごとのメッセージ
+  details: string[]; // issue ごとの翻訳済みメッセージ. issues のないエラーは空
+  issues: LocalizedIssue[];
+}
+
+export interface Localizer {
+  localize: (e: AppError, locale: Locale) => LocalizedError;
+  message: (
+    code: string,
+    params: Record<string, unknown>,
+    locale: Locale,
+  ) => string | undefined; // カタログにない場合は undefined
+  locales: () => Locale[];
+}
+
+// 組み込みのメッセージ
+export const DEFAULT_MESSAGES: MessageCatalog = {
+  ja: MESSAGES_JA,
+  en: MESSAGES_EN,
+};
+
+/**
+ * エラーをロケールのメッセージにする Localizer を作る
+ *
+ * catalog は組み込みのメッセージに上書きで追加する. カタログにないロケールは fallback で表示する
+ *
+ * エラーの種類のメッセージと AppError の issues (code と params を持つ) を翻訳する.
+ * AppError の details は開発者向けの自由な文字列で翻訳できないので返さない.
+ * 利用者に見せる項目は issues に code を付けて入れる (lib/auth のポリシーなど)
+ *
+ * @example
+ * ```typescript
+ * const i18n = newLocalizer({
+ *   ja: { "issue.invalid_slug": "英小文字, 数字, ハイフンで入力してください" },
+ *   en: { "issue.invalid_slug": "Use lowercase letters, digits and hyphens" },
+ * });
+ * i18n.localize(e, "ja");
+ * // { code: "Validation Error", message: "入力内容が正しくありません", details: ["email: メールアドレス の形式で入力してください"], ... }
+ * ```
+ */
+export const newLocalizer = (
+  catalog: MessageCatalog = {},
+  fallback: Locale = "en",
+): Localizer => {
+  const messages: MessageCatalog = { ...DEFAULT_MESSAGES };
+  for (const [locale, m] of Object.entries(catalog)) {
+    messages[locale] = { ...messages[locale], ...m };
+  }
+
+  const message = (
+    code: string,
+    params: Record<string, unknown>,
+    locale: Locale,
+  ): string | undefined => {
+    const m =
+      lookup(messages, locale, code) ?? lookup(messages, fallback, code);
+    if (m === undefined) {
+      return undefined;
+    }
+    return typeof m === "function" ? m(params) : interpolate(m, params);
+  };
+
+  const localizeIssue = (
+    issue: ValidationIssue,
+    locale: Locale,
+  ): LocalizedIssue => ({
+    path: issue.path,
+    code: issue.code,
+    message:
+      message(`issue.${issue.code}`, issue.params ?? {}, locale) ??
+      issue.message,
+  });
+
+  return {
+    localize: (e: AppError, locale: Locale): LocalizedError => {
+      const params =
+        e instanceof RateLimitError ? { retryAfter: e.retryAfter } : {};
+      const localized = e.issues.map((i) => localizeIssue(i, locale));
+      return {
+        code: e.code,
+        message: message(errorKey(e), params, locale) ?? e.message,
+        details: e.issues.map((i, n) =>
+          withLabel(localized[n].message, issueLabel(i)),
+        ),
+        issues: localized,
+      };
+    },
+    message,
+    locales: () => Object.keys(messages),
+  };
+};
+
+const defaultLocalizer = newLocalizer();
+
+/**
+ * 組み込みのメッセージでエラーをロケールのメッセージにする
+ *
+ * @example
+ * ```typescript
+ * localize(e, "ja").details; // ["name: 3 文字以上で入力してください", "email: 必須です"]
+ * ```
+ */
+export const localize = (e: AppError, locale: Locale): LocalizedError =>
+  defaultLocalizer.localize(e, locale);
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+
+// エラーの種類ごとのメッセージコード
+const errorKey = (e: AppError): string =>
+  matchError(e, {
+    SystemError: () => "error.system",
+    TimeoutError: () => "error.timeout",
+    UnavailableError: () => "error.unavailable",
+    ValidationError: () => "error.validation",
+    NotFoundError: () => "error.not_found",
+    AuthError: () => "error.auth",
+    ForbiddenError: () => "error.forbidden",
+    ConflictError: () => "error.conflict",
+    RateLimitError: () => "error.rate_limit",
+  });
+
+// "ja-JP" にメッセージがなければ "ja" を探す
+const lookup = (
+  messages: MessageCatalog,
+  locale: Locale,
+  code: string,
+): Message | undefined =>
+  messages[locale]?.[code] ?? messages[locale.split("-")[0]]?.[code];
+
+// "{minimum} 文字以上" の {minimum} を params の値にする
+const interpolate = (m: string, params: Record<string, unknown>): string =>
+  m.replace(/\{(\w+)\}/g, (s, k: string) =>
+    k in params ? String(params[k]) : s,
+  );
+
+// issue の項目名. path がなければ newType の型名
+const issueLabel = (issue: ValidationIssue): string | undefined => {
+  if (issue.path.length === 0) {
+    return issue.type;
+  }
+  return issue.path
+    .map((p, i) => (typeof p === "number" ? `[${p}]` : i === 0 ? p : `.${p}`))
+    .join("");
+};
+
+const withLabel = (message: string, label?: string): string =>
+  label ? `${label}: ${message}` : message;
@@ -0,0 +1,260 @@
+// メッセージ. params から文を組み立てる場合は関数にする
+export type Message = string | ((params: Record<string, unknown>) => string);
+
+// エラーと issue のメッセージコード
+export const MESSAGE_CODES = [
+  // AppError の種類
+  "error.system",
+  "error.timeout",
+  "error.unavailable",
+  "error.validation",
+  "error.not_found",
+  "error.auth",
+  "error.forbidden",
+  "error.conflict",
+  "error.rate_limit",
+  // zod の issue
+  "issue.invalid_type",
+  "issue.too_small",
+  "issue.too_big",
+  "issue.invalid_format",
+  "issue.not_multiple_of",
+  "issue.unrecognized_keys",
+  "issue.invalid_union",
+  "issue.invalid_key",
+  "issue.invalid_element",
+  "issue.invalid_value",
+  "issue.custom",
+  // NWU 独自の issue
+  "issue.missing",
+  "issue.invalid_json",
+  "issue.invalid_url",
+  "issue.invalid_form",
+  "issue.invalid_content_type",
+  "issue.invalid_body",
+  "issue.invalid_duration",
+  "issue.invalid_log_level",
+  // 認可 (lib/auth のポリシー, API キー) の issue
+  "issue.role_required",
+  "issue.group_required",
+  "issue.email_domain_required",
+  "issue.claim_required",
+  "issue.scope_required",
+] as const;
+export type MessageCode = (typeof MESSAGE_CODES)[number];
+
+// ----------------------------------------------------------------------------
+// ja
+// ----------------------------------------------------------------------------
+const TYPES_JA: Record<string, string> = {
+  string: "文字列",
+  number: "数値",
+  int: "整数",
+  bigint: "整数",
+  boolean: "真偽値",
+  object: "オブジェクト",
+  array: "配列",
+  date: "日時",
+};
+
+const FORMATS_JA: Record<string, string> = {
+  email: "メールアドレス",
+  url: "URL",
+  uuid: "UUID",
+  date: "日付 (YYYY-MM-DD)",
+  datetime: "日時 (ISO 8601)",
+  time: "時刻",
+  ipv4: "IPv4 アドレス",
+  ipv6: "IPv6 アドレス",
+};
+
+export const MESSAGES_JA: Record<MessageCode, Message> = {
+  "error.system": "システムエラーが発生しました",
+  "error.timeout": "処理がタイムアウトしました",
+  "error.unavailable": "サービスを一時的に利用できません",
+  "error.validation": "入力内容が正しくありません",
+  "error.not_found": "対象が見つかりません",
+  "error.auth": "認証が必要です",
+  "error.forbidden": "この操作を行う権限がありません",
+  "error.conflict": "他の操作と競合しました",
+  "error.rate_limit": ({ retryAfter }) =>
+    retryAfter === undefined
+      ? "リクエストが多すぎます. しばらくしてから再度お試しください"
+      : `リクエストが多すぎます. ${retryAfter} 秒後に再度お試しください`,
+
+  "issue.invalid_type": ({ expected }) =>
+    `${TYPES_JA[String(expected)] ?? expected} を入力してください`,
+  "issue.too_small": ({ origin, minimum, inclusive }) => {
+    switch (origin) {
+      case "string":
+        return minimum === 1
+          ? "入力してください"
+          : `${minimum} 文字以上で入力してください`;
+      case "array":
+      case "set":
+        return `${minimum} 件以上指定してください`;
+      case "date":
+        return `${minimum} 以降の日時を入力してください`;
+      default:
+        return inclusive === false
+          ? `${minimum} より大きい値を入力してください`
+          : `${minimum} 以上の値を入力してください`;
+    }
+  },
+  "issue.too_big": ({ origin, maximum, inclusive }) => {
+    switch (origin) {
+      case "string":
+        return `${maximum} 文字以内で入力してください`;
+      case "array":
+      case "set":
+        return `${maximum} 件以内で指定してください`;
+      case "date":
+        return `${maximum} 以前の日時を入力してください`;
+      case "body":
+        return `サイズが大きすぎます (${maximum} バイトまで)`;
+      default:
+        return inclusive === false
+          ? `${maximum} より小さい値を入力してください`
+          : `${maximum} 以下の値を入力してください`;
+    }
+  },
+  "issue.invalid_format": ({ format }) =>
+    FORMATS_JA[String(format)]
+      ? `${FORMATS_JA[String(format)]} の形式で入力してください`
+      : "形式が正しくありません",
+  "issue.not_multiple_of": ({ divisor }) =>
+    `${divisor} の倍数を入力してください`,
+  "issue.unrecognized_keys": ({ keys }) =>
+    `不明な項目があります: ${[keys].flat().join(", ")}`,
+  "issue.invalid_union": "入力値が正しくありません",
+  "issue.invalid_key": "項目名が正しくありません",
+  "issue.invalid_element": "要素が正しくありません",
+  "issue.invalid_value": ({ values }) =>
+    `${[values].flat().join(", ")} のいずれかを指定してください`,
+  "issue.custom": "入力値が正しくありません",
+  "issue.missing": "必須です",
+  "issue.invalid_json": "JSON の形式が正しくありません",
+  "issue.invalid_url": "URL の形式が正しくありません",
+  "issue.invalid_form": "フォームの形式が正しくありません",
+  "issue.invalid_content_type": ({ contentType }) =>
+    `この Content-Type には対応していません: ${contentType || "(なし)"}`,
+  "issue.invalid_body": "リクエストの本文を読み込めませんでした",
+  "issue.invalid_duration": ({ value }) =>
+    `時間の形式が正しくありません ("5m", "1h30m" など): ${value}`,
+  "issue.invalid_log_level": ({ value }) =>
+    `ログレベルの設定が正しくありません: ${value}`,
+  "issue.role_required": ({ roles }) =>
+    [roles].flat().length > 1
+      ? `${[roles].flat().join(", ")} のいずれかのロールが必要です`
+      : `${roles} のロールが必要です`,
+  "issue.group_required": ({ groups }) =>
+    [groups].flat().length > 1
+      ? `${[groups].flat().join(", ")} のいずれかのグループへの所属が必要です`
+      : `${groups} グループへの所属が必要です`,
+  "issue.email_domain_required": ({ domains }) =>
+    `${[domains].flat().join(", ")} のメールアドレスが必要です`,
+  "issue.claim_required": "{name}={value} のクレームが必要です",
+  "issue.scope_required": ({ scopes }) =>
+    `API キーに ${[scopes].flat().join(", ")} のスコープがありません`,
+};
+
+// ----------------------------------------------------------------------------
+// en
+// ----------------------------------------------------------------------------
+const FORMATS_EN: Record<string, string> = {
+  email: "an email address",
+  url: "a URL",
+  uuid: "a UUID",
+  date: "a date (YYYY-MM-DD)",
+  datetime: "an ISO 8601 date-time",
+  time: "a time",
+  ipv4: "an IPv4 address",
+  ipv6: "an IPv6 address",
+};
+
+export const MESSAGES_EN: Record<MessageCode, Message> = {
+  "error.system": "A system error occurred",
+  "error.timeout": "The operation timed out",
+  "error.unavailable": "The service is temporarily unavailable",
+  "error.validation": "The input is invalid",
+  "error.not_found": "Not found",
+  "error.auth": "Authentication required",
+  "error.forbidden": "You do not have permission to perform this operation",
+  "error.conflict": "The request conflicts with another operation",
+  "error.rate_limit": ({ retryAfter }) =>
+    retryAfter === undefined
+      ? "Too many requests. Please try again later"
+      : `Too many requests. Please try again in ${retryAfter} seconds`,
+
+  "issue.invalid_type": ({ expected }) => `Expected ${expected}`,
+  "issue.too_small": ({ origin, minimum, inclusive }) => {
+    switch (origin) {
+      case "string":
+        return minimum === 1
+          ? "Required"
+          : `Must be at least ${minimum} characters`;
+      case "array":
+      case "set":
+        return `Must contain at least ${minimum} items`;
+      case "date":
+        return `Must be on or after ${minimum}`;
+      default:
+        return inclusive === false
+          ? `Must be greater than ${minimum}`
+          : `Must be at least ${minimum}`;
+    }
+  },
+  "issue.too_big": ({ origin, maximum, inclusive }) => {
+    switch (origin) {
+      case "string":
+        return `Must be at most ${maximum} characters`;
+      case "array":
+      case "set":
+        return `Must contain at most ${maximum} items`;
+      case "date":
+        return `Must be on or before ${maximum}`;
+      case "body":
+        return `Too large (up to ${maximum} bytes)`;
+      default:
+        return inclusive === false
+          ? `Must be less than ${maximum}`
+          : `Must be at most ${maximum}`;
+    }
+  },
+  "issue.invalid_format": ({ format }) =>
+    FORMATS_EN[String(format)]
+      ? `Must be ${FORMATS_EN[String(format)]}`
+      : "Invalid format",
+  "issue.not_multiple_of": ({ divisor }) => `Must be a multiple of ${divisor}`,
+  "issue.unrecognized_keys": ({ keys }) =>
+    `Unknown fields: ${[keys].flat().join(", ")}`,
+  "issue.invalid_union": "Invalid input",
+  "issue.invalid_key": "Invalid key",
+  "issue.invalid_element": "Invalid element",
+  "issue.invalid_value": ({ values }) =>
+    `Must be one of ${[values].flat().join(", ")}`,
+  "issue.custom": "Invalid input",
+  "issue.missing": "Required",
+  "issue.invalid_json": "Malformed JSON",
+  "issue.invalid_url": "Malformed URL",
+  "issue.invalid_form": "Malformed form data",
+  "issue.invalid_content_type": ({ contentType }) =>
+    `Unsupported content type: ${contentType || "(none)"}`,
+  "issue.invalid_body": "Failed to read the request body",
+  "issue.invalid_duration": ({ value }) =>
+    `Invalid duration (e.g. "5m", "1h30m"): ${value}`,
+  "issue.invalid_log_level": ({ value }) => `Invalid log level spec: ${value}`,
+  "issue.role_required": ({ roles }) =>
+    [roles].flat().length > 1
+      ? `One of roles required: ${[roles].flat().join(", ")}`
+      : `Role required: ${roles}`,
+  "issue.group_required": ({ groups }) =>
+    [groups].flat().length > 1
+      ? `One of groups required: ${[groups].flat().join(", ")}`
+      : `Group required: ${groups}`,
+  "issue.email_domain_required": ({ domains }) =>
+    `Email domain required: ${[domains].flat().join(", ")}`,
+  "issue.claim_required": "Claim required: {name}={value}",
+  "issue.scope_required": ({ scopes }) =>
+    `API key is missing required scopes: ${[scopes].flat().join(", ")}`,
+};
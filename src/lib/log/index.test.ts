@@ -0,0 +1,369 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { newAuthCloudflare } from "../../adapter/auth-cloudflare/index.js";
+import {
+  newTestIssuer,
+  type TestIssuer,
+} from "../../adapter/auth-testkit/index.js";
+import { newLogConsole } from "../../adapter/log-console/index.js";
+import { newLogJson } from "../../adapter/log-json/index.js";
+import { newLogMemory } from "../../adapter/log-memory/index.js";
+import { type AppError, SystemError } from "../../error.js";
+import {
+  logLevelsFromEnv,
+  newLogLevels,
+  newRedactor,
+  parseLogLevelSpec,
+  REDACTED,
+  rateLimitLogger,
+  sampleLogger,
+  teeLogger,
+} from "./index.js";
+
+const AUD = "test-aud";
+const EMAIL = "alice@example.com";
+
+describe("newRedactor", () => {
+  it("JWT とメールアドレスを文字列中でマスクすること", () => {
+    const r = newRedactor();
+    const s = r.text(
+      `token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.abc-_ for ${EMAIL}`,
+    );
+    expect(s).toBe(`token ${REDACTED} for a***@example.com`);
+  });
+
+  it("Authorization / Cookie ヘッダを丸ごとマスクすること", () => {
+    const r = newRedactor();
+    const headers = new Headers({
+      Authorization: "Bearer secret",
+      Cookie: "CF_Authorization=abc",
+      "X-Request-Id": "req-1",
+    });
+    expect(r.value({ req: { headers } })).toEqual({
+      req: {
+        headers: {
+          authorization: REDACTED,
+          cookie: REDACTED,
+          "x-request-id": "req-1",
+        },
+      },
+    });
+  });
+
+  it("設定したキーのパスとパターンをマスクすること", () => {
+    const r = newRedactor({
+      paths: ["password", "card.number"],
+      patterns: [{ pattern: /\d{3}-\d{4}/, replace: "***-****" }],
+    });
+    expect(
+      r.value({
+        password: "p@ss",
+        card: { number: "4242", brand: "visa" },
+        number: "1",
+        note: "call 090-123-4567",
+      }),
+    ).toEqual({
+      password: REDACTED,
+      card: { number: REDACTED, brand: "visa" },
+      number: "1",
+      note: "call 090-***-****",
+    });
+  });
+
+  it("defaults: false の場合はデフォルトのルールを使わないこと", () => {
+    const r = newRedactor({ defaults: false });
+    expect(r.text(EMAIL)).toBe(EMAIL);
+    expect(r.value({ authorization: "Bearer x" })).toEqual({
+      authorization: "Bearer x",
+    });
+  });
+
+  it("循環参照があっても止まること", () => {
+    const a: Record<string, unknown> = { name: "a" };
+    a.self = a;
+    expect(newRedactor().value(a)).toEqual({ name: "a", self: "[Circular]" });
+  });
+});
+
+describe("ログ adapter のマスク (auth-cloudflare のエラー)", () => {
+  let issuer: TestIssuer;
+  let logs: string[];
+  let spy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    issuer = await newTestIssuer({
+      issuer: "https://team.cloudflareaccess.com",
+      jwksPath: "/cdn-cgi/access/certs",
+      email: EMAIL,
+    });
+    logs = [];
+    spy = spyOn(console, "log").mockImplementation((s: string) => {
+      logs.push(s);
+    });
+  });
+
+  afterEach(() => {
+    spy.mockRestore();
+  });
+
+  // 認証に失敗したリクエストとエラー
+  const failedAuth = async (
+    claims: Record<string, unknown>,
+  ): Promise<{ req: Request; token: string; e: AppError }> => {
+    const token = await issuer.sign(claims);
+    const req = new Request("https://app.example.com", {
+      headers: {
+        "Cf-Access-Jwt-Assertion": token,
+        Cookie: `CF_Authorization=${token}`,
+      },
+    });
+    const auth = newAuthCloudflare(issuer.issuer, AUD, { fetch: issuer.fetch });
+    const e = (await auth.auth(req))._unsafeUnwrapErr();
+    return { req, token, e };
+  };
+
+  for (const [name, newLog] of [
+    ["newLogJson", () => newLogJson("debug")],
+    ["newLogConsole", () => newLogConsole("debug")],
+  ] as const) {
+    describe(name, () => {
+      it("リクエストヘッダとエラーのトークンを出力しないこと", async () => {
+        const { req, token, e } = await failedAuth({ aud: "other-aud" });
+        expect(e.code).toBe("Auth Error");
+
+        newLog().warn("auth failed", { headers: req.headers }, e);
+        const out = logs.join("\n");
+        expect(out).toContain("auth failed");
+        expect(out).toContain(e.message);
+        expect(out).not.toContain(token);
+      });
+
+      it("cause に含まれるトークンとメールアドレスをマスクすること", async () => {
+        const { token, e } = await failedAuth({ exp: 1 });
+        expect(e.message).toBe("Token has expired");
+
+        const wrapped = new SystemError(
+          `login failed for ${EMAIL}`,
+          [`token: ${token}`],
+          e,
+        );
+        newLog()
+          .child({ user: EMAIL })
+          .error(
+            `Bearer ${token}`,
+            { authorization: `Bearer ${token}` },
+            wrapped,
+          );
+        const out = logs.join("\n");
+        expect(out).toContain("Token has expired");
+        expect(out).toContain("a***@example.com");
+        expect(out).not.toContain(token);
+        expect(out).not.toContain(EMAIL);
+      });
+    });
+  }
+
+  it("redact: false の場合はマスクしないこと", async () => {
+    const { token, e } = await failedAuth({ exp: 1 });
+    newLogJson("debug", { redact: false }).warn("auth failed", { token }, e);
+    expect(logs.join("\n")).toContain(token);
+  });
+});
+
+describe("teeLogger", () => {
+  it("すべてのロガーに出力すること", () => {
+    const a = newLogMemory();
+    const b = newLogMemory("warn");
+    const e = new SystemError("boom");
+    const logger = teeLogger(a, b).child({ requestId: "req-1" });
+
+    logger.info("hello", { userId: "u1" });
+    logger.error("failed", e);
+
+    expect(a.entries.map((x) => x.message)).toEqual(["hello", "failed"]);
+    expect(b.entries.map((x) => x.message)).toEqual(["failed"]);
+    expect(a.entries[0].fields).toEqual({ requestId: "req-1", userId: "u1" });
+    expect(b.entries[0].error).toBe(e);
+  });
+});
+
+describe("sampleLogger", () => {
+  it("指定した割合のレベルだけ間引くこと", () => {
+    const memory = newLogMemory();
+    const values = [0.05, 0.5, 0.95];
+    let i = 0;
+    const logger = sampleLogger(memory, { debug: 0.1 }, () => values[i++ % 3]);
+
+    for (let n = 0; n < 3; n++) {
+      logger.debug(`debug ${n}`);
+      logger.info(`info ${n}`);
+    }
+
+    expect(memory.entries.filter((x) => x.level === "debug")).toHaveLength(1);
+    expect(memory.entries.filter((x) => x.level === "info")).toHaveLength(3);
+  });
+});
+
+describe("rateLimitLogger", () => {
+  it("同じメッセージをまとめ, 次の期間に件数を付けること", () => {
+    const memory = newLogMemory();
+    let now = 0;
+    const logger = rateLimitLogger(memory, { interval: 1000, now: () => now });
+
+    logger.warn("retrying");
+    logger.child({ attempt: 2 }).warn("retrying");
+    logger.warn("retrying");
+    logger.warn("other");
+    logger.info("retrying");
+    now = 1000;
+    logger.warn("retrying");
+
+    expect(memory.entries.map((x) => [x.level, x.message, x.fields])).toEqual([
+      ["warn", "retrying", {}],
+      ["warn", "other", {}],
+      ["info", "retrying", {}],
+      ["warn", "retrying", { suppressed: 2 }],
+    ]);
+  });
+
+  it("名前付きロガーごとに別々にまとめること", () => {
+    const memory = newLogMemory();
+    const rl = rateLimitLogger(memory, { interval: 1000, now: () => 0 });
+
+    rl.named("auth").warn("connection failed");
+    rl.named("db").warn("connection failed");
+    rl.named("db").child({ host: "a" }).warn("connection failed");
+    rl.named("db").named("pool").warn("connection failed");
+    rl.warn("connection failed");
+
+    expect(memory.entries.map((x) => x.fields.logger)).toEqual([
+      "auth",
+      "db",
+      "db.pool",
+      undefined,
+    ]);
+  });
+
+  it("期限切れの期間を取り除き, 古いまとめた件数は捨てること", () => {
+    const memory = newLogMemory();
+    let now = 0;
+    const logger = rateLimitLogger(memory, { interval: 1000, now: () => now });
+
+    logger.warn("retrying");
+    logger.warn("retrying");
+    for (let i = 0; i < 100; i++) {
+      logger.info(`request ${i}`);
+    }
+    now = 2500;
+    logger.info("request 0");
+    logger.warn("retrying");
+
+    expect(memory.entries.slice(-2).map((x) => x.fields)).toEqual([{}, {}]);
+  });
+});
+
+describe("parseLogLevelSpec", () => {
+  it("デフォルトと名前ごとのレベルをパースできること", () => {
+    expect(
+      parseLogLevelSpec(" info, auth=debug ,db.pool=WARN,")._unsafeUnwrap(),
+    ).toEqual({
+      default: "info",
+      modules: { auth: "debug", "db.pool": "warn" },
+    });
+  });
+
+  it("不正な設定は ValidationError になること", () => {
+    const e = parseLogLevelSpec(
+      "verbose,info,warn,auth=,a b=info,x=y=z",
+    )._unsafeUnwrapErr();
+    expect(e.code).toBe("Validation Error");
+    expect(e.details).toEqual([
+      "Unknown log level: verbose",
+      "Multiple default levels: warn",
+      "Unknown log level: ",
+      "Invalid logger name: a b",
+      "Invalid item: x=y=z",
+    ]);
+  });
+});
+
+describe("名前付きロガー", () => {
+  it("名前ごとのレベルで絞り込み, logger フィールドを付けること", () => {
+    const levels = logLevelsFromEnv({
+      LOG_LEVEL: "warn,auth=debug,db=error",
+    })._unsafeUnwrap();
+    const logger = newLogMemory(levels);
+
+    logger.info("root info");
+    logger.named("auth").debug("auth debug");
+    logger.named("auth").named("jwt").debug("jwt debug");
+    logger.named("db").warn("db warn");
+    logger.named("db").error("db error");
+
+    expect(logger.entries.map((x) => [x.message, x.fields.logger])).toEqual([
+      ["auth debug", "auth"],
+      ["jwt debug", "auth.jwt"],
+      ["db error", "db"],
+    ]);
+  });
+
+  it("実行中にレベルを変更できること", () => {
+    const levels = newLogLevels("info");
+    const logger = newLogMemory(levels);
+    const db = logger.named("db").child({ pool: "main" });
+
+    db.debug("before");
+    levels.set("debug", "db");
+    db.debug("after set");
+    levels.configure("error")._unsafeUnwrap();
+    db.warn("after configure");
+    logger.error("root error");
+
+    expect(logger.entries.map((x) => x.message)).toEqual([
+      "after set",
+      "root error",
+    ]);
+  });
+
+  it("configure で spec にデフォルトがなければ今のデフォルトを引き継ぐこと", () => {
+    const levels = newLogLevels({ default: "error", modules: { db: "debug" } });
+
+    levels.configure("auth=debug")._unsafeUnwrap();
+    expect(levels.spec()).toEqual({
+      default: "error",
+      modules: { auth: "debug" },
+    });
+
+    levels.configure("warn")._unsafeUnwrap();
+    expect(levels.spec()).toEqual({ default: "warn", modules: {} });
+  });
+
+  it("Object.prototype のプロパティ名のロガーもデフォルトのレベルを使うこと", () => {
+    const logger = newLogMemory("error");
+    for (const name of [
+      "constructor",
+      "toString",
+      "__proto__",
+      "hasOwnProperty",
+    ]) {
+      logger.named(name).info("hidden");
+    }
+    expect(logger.entries).toHaveLength(0);
+
+    const levels = newLogLevels();
+    levels.configure("error,__proto__=debug")._unsafeUnwrap();
+    expect(levels.level("__proto__")).toBe("debug");
+    expect(levels.level("constructor")).toBe("error");
+    expect(Object.getPrototypeOf(levels.spec().modules)).toBe(Object.prototype);
+  });
+
+  it("silent の場合は error も出力しないこと", () => {
+    const logger = newLogMemory("silent");
+    logger.error("boom", new SystemError("boom"));
+    expect(logger.entries).toHaveLength(0);
+  });
+
+  it("LOG_LEVEL がなければデフォルトのレベルを使うこと", () => {
+    expect(logLevelsFromEnv({})._unsafeUnwrap().level("auth")).toBe("info");
+    expect(logLevelsFromEnv({ LOG_LEVEL: 1 }).isErr()).toBe(true);
+  });
+});
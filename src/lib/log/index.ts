@@ -0,0 +1,3 @@
+export * from "./level.js";
+export * from "./logger.js";
+export * from "./redact.js";
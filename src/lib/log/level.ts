@@ -0,0 +1,175 @@
+import { err, ok, type Result } from "neverthrow";
+import { ValidationError } from "../../error.js";
+import type { LogLevel, LogThreshold } from "../../interface.js";
+
+// 重要度の低い順
+export const LOG_LEVELS: readonly LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+];
+
+const THRESHOLDS: readonly LogThreshold[] = [...LOG_LEVELS, "silent"];
+
+// LOG_LEVEL の設定 ("info,auth=debug,db=warn")
+export interface LogLevelSpec {
+  default: LogThreshold; // 名前のないロガーと, 設定のない名前のロガーのレベル
+  modules: Record<string, LogThreshold>; // 名前ごとのレベル
+}
+
+/**
+ * ロガーのレベル設定
+ *
+ * ロガーは出力のたびにここからレベルを引くので, 実行中に変更してもロガーを作り直す必要はない
+ */
+export interface LogLevels {
+  level: (name?: string) => LogThreshold; // 名前付きロガーのレベル
+  set: (level: LogThreshold, name?: string) => void; // name を省略した場合はデフォルトのレベルを変える
+  configure: (spec: string) => Result<void, ValidationError>; // 名前ごとのレベルをすべて置き換える. デフォルトは spec にあれば置き換える
+  spec: () => LogLevelSpec;
+}
+
+/**
+ * level のログが threshold 以上の重要度か
+ */
+export const isLevelEnabled = (
+  threshold: LogThreshold,
+  level: LogLevel,
+): boolean => THRESHOLDS.indexOf(level) >= THRESHOLDS.indexOf(threshold);
+
+/**
+ * LOG_LEVEL の設定をパースする
+ *
+ * カンマ区切りで, 名前のない項目がデフォルト, `name=level` が名前ごとのレベル
+ *
+ * @example
+ * ```typescript
+ * parseLogLevelSpec("info,auth=debug,db=warn");
+ * // ok({ default: "info", modules: { auth: "debug", db: "warn" } })
+ * ```
+ */
+export const parseLogLevelSpec = (
+  spec: string,
+  fallback: LogThreshold = "info",
+): Result<LogLevelSpec, ValidationError> => {
+  const errors: string[] = [];
+  let defaultLevel = fallback;
+  const modules: [string, LogThreshold][] = [];
+  let hasDefault = false;
+
+  for (const item of spec.split(",").map((s) => s.trim())) {
+    if (item === "") {
+      continue;
+    }
+    const [name, level, ...rest] = item.split("=").map((s) => s.trim());
+    const [moduleName, threshold] =
+      level === undefined ? [undefined, name] : [name, level];
+    if (rest.length > 0) {
+      errors.push(`Invalid item: ${item}`);
+    } else if (!isThreshold(threshold.toLowerCase())) {
+      errors.push(`Unknown log level: ${threshold}`);
+    } else if (moduleName === undefined) {
+      if (hasDefault) {
+        errors.push(`Multiple default levels: ${item}`);
+      }
+      hasDefault = true;
+      defaultLevel = threshold.toLowerCase() as LogThreshold;
+    } else if (!/^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/.test(moduleName)) {
+      errors.push(`Invalid logger name: ${moduleName}`);
+    } else {
+      modules.push([moduleName, threshold.toLowerCase() as LogThreshold]);
+    }
+  }
+
+  if (errors.length > 0) {
+    return err(new ValidationError(`Invalid log level spec: ${spec}`, errors));
+  }
+  // "__proto__" などの名前もプロトタイプではなく自身のキーにする
+  return ok({ default: defaultLevel, modules: Object.fromEntries(modules) });
+};
+
+/**
+ * ロガーのレベル設定を作る
+ *
+ * `auth.jwt` のレベルは `auth.jwt`, `auth`, デフォルトの順に探す
+ *
+ * @example
+ * ```typescript
+ * const levels = newLogLevels({ default: "info", modules: { db: "warn" } });
+ * const logger = newLogJson(levels);
+ * levels.set("debug", "db"); // 以後 db のロガーは debug も出力する
+ * ```
+ */
+export const newLogLevels = (
+  init: LogThreshold | LogLevelSpec = "info",
+): LogLevels => {
+  let current: LogLevelSpec =
+    typeof init === "string"
+      ? { default: init, modules: {} }
+      : { default: init.default, modules: { ...init.modules } };
+
+  const level = (name?: string): LogThreshold => {
+    for (let n = name; n; n = parentName(n)) {
+      // "constructor" などの名前で Object.prototype のプロパティを拾わない
+      if (Object.prototype.hasOwnProperty.call(current.modules, n)) {
+        return current.modules[n];
+      }
+    }
+    return current.default;
+  };
+
+  return {
+    level,
+    set: (l: LogThreshold, name?: string) => {
+      current =
+        name === undefined
+          ? { ...current, default: l }
+          : { ...current, modules: { ...current.modules, [name]: l } };
+    },
+    // spec にデフォルトがなければ今のデフォルトを引き継ぐ
+    configure: (spec: string) =>
+      parseLogLevelSpec(spec, current.default).map((s) => {
+        current = s;
+      }),
+    spec: () => ({ default: current.default, modules: { ...current.modules } }),
+  };
+};
+
+/**
+ * 環境変数 (Workers の env バインディングなど) からレベル設定を作る
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   fetch: (req, env) =>
+ *     logLevelsFromEnv(env).map((levels) => newLogJson(levels)) ...
+ * };
+ * ```
+ */
+export const logLevelsFromEnv = (
+  env: Record<string, unknown>,
+  key = "LOG_LEVEL",
+  fallback: LogThreshold = "info",
+): Result<LogLevels, ValidationError> => {
+  const v = env[key];
+  if (v === undefined || v === "") {
+    return ok(newLogLevels(fallback));
+  }
+  if (typeof v !== "string") {
+    return err(new ValidationError(`${key} must be a string`, [String(v)]));
+  }
+  return parseLogLevelSpec(v, fallback).map(newLogLevels);
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const isThreshold = (v: string): v is LogThreshold =>
+  (THRESHOLDS as readonly string[]).includes(v);
+
+// "auth.jwt" -> "auth", "auth" -> undefined
+const parentName = (name: string): string | undefined => {
+  const i = name.lastIndexOf(".");
+  return i < 0 ? undefined : name.slice(0, i);
+};
@@ -0,0 +1,228 @@
+import { AppError } from "../../error.js";
+import type {
+  LogFields,
+  Logger,
+  LogLevel,
+  LogThreshold,
+} from "../../interface.js";
+import { isLevelEnabled, type LogLevels, newLogLevels } from "./level.js";
+
+// 1 件のログ出力
+export type LogWrite = (
+  level: LogLevel,
+  s: string,
+  fields: LogFields,
+  e?: AppError,
+) => void;
+
+/**
+ * ログ adapter の共通部分
+ *
+ * level 未満のログを捨て, 子ロガーのフィールドを重ねてから write に渡す.
+ * adapter は 1 件のログの出力方法だけを実装する.
+ * level に LogLevels を渡すと, 名前付きロガーごとのレベルを実行中に変更できる
+ *
+ * @example
+ * ```typescript
+ * export const newLogStderr = (level: LogLevel): Logger =>
+ *   newLogger(level, (l, s, fields, e) => console.error(l, s, fields, e));
+ * ```
+ */
+export const newLogger = (
+  level: LogThreshold | LogLevels,
+  write: LogWrite,
+): Logger =>
+  newCoreLogger(
+    typeof level === "string" ? newLogLevels(level) : level,
+    write,
+    {},
+  );
+
+/**
+ * ログ出力の引数を fields と error に分ける
+ *
+ * `info(s, e)` と `info(s, fields, e)` の両方の呼び出し方に対応する
+ */
+export const parseLogArgs = (
+  a?: LogFields | AppError,
+  b?: AppError,
+): { fields: LogFields; error?: AppError } =>
+  a instanceof AppError
+    ? { fields: {}, error: a }
+    : { fields: a ?? {}, error: b };
+
+/**
+ * 複数のロガーに同じログを出力する
+ *
+ * @example
+ * ```typescript
+ * const logger = teeLogger(newLogJson("info"), remote);
+ * ```
+ */
+export const teeLogger = (...loggers: Logger[]): Logger =>
+  newLoggerWith(
+    (l, s, fields, e) => {
+      for (const logger of loggers) {
+        logger[l](s, fields, e);
+      }
+    },
+    (fields) => teeLogger(...loggers.map((logger) => logger.child(fields))),
+    (name) => teeLogger(...loggers.map((logger) => logger.named(name))),
+  );
+
+// レベルごとの出力する割合 (0〜1). 指定のないレベルはすべて出力する
+export type SampleRates = Partial<Record<LogLevel, number>>;
+
+/**
+ * レベルごとに一定の割合だけログを出力する
+ *
+ * @example
+ * ```typescript
+ * const logger = sampleLogger(newLogJson("debug"), { debug: 0.1 }); // debug は 10% だけ出力
+ * ```
+ */
+export const sampleLogger = (
+  logger: Logger,
+  rates: SampleRates,
+  random: () => number = Math.random,
+): Logger =>
+  newLoggerWith(
+    (l, s, fields, e) => {
+      if (random() < (rates[l] ?? 1)) {
+        logger[l](s, fields, e);
+      }
+    },
+    (fields) => sampleLogger(logger.child(fields), rates, random),
+    (name) => sampleLogger(logger.named(name), rates, random),
+  );
+
+export interface RateLimitOptions {
+  interval?: number; // 同じメッセージをまとめる期間 (ミリ秒). デフォルト 60 秒
+  max?: number; // 期間内に出力する同じメッセージの最大件数. デフォルト 1
+  now?: () => number; // 現在時刻 (テスト用)
+}
+
+/**
+ * 同じロガー名・レベル・メッセージのログが続いた場合にまとめる
+ *
+ * 期間内に max 件を超えたログは出力せず, 期間が過ぎた後の最初のログに
+ * まとめた件数を `suppressed` フィールドとして付ける.
+ * まとめた件数は少なくとも次の期間の終わりまで保持し, それ以降は捨てることがある
+ *
+ * @example
+ * ```typescript
+ * const logger = rateLimitLogger(newLogJson("info"), { interval: 10_000 });
+ * ```
+ */
+export const rateLimitLogger = (
+  logger: Logger,
+  opts: RateLimitOptions = {},
+): Logger =>
+  newRateLimitLogger(logger, {
+    interval: opts.interval ?? 60_000,
+    max: opts.max ?? 1,
+    now: opts.now ?? Date.now,
+    windows: new Map(), // 子ロガーとも共有する
+    swept: 0,
+  });
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+
+// 各レベルのメソッドを同じ出力処理で作る
+const newLoggerWith = (
+  write: LogWrite,
+  child: (fields: LogFields) => Logger,
+  named: (name: string) => Logger,
+): Logger => {
+  const log =
+    (l: LogLevel) =>
+    (s: string, a?: LogFields | AppError, b?: AppError): void => {
+      const { fields, error } = parseLogArgs(a, b);
+      write(l, s, fields, error);
+    };
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child,
+    named,
+  };
+};
+
+// 名前付きロガーは logger フィールドに名前を付け, 名前ごとのレベルで絞り込む
+const newCoreLogger = (
+  levels: LogLevels,
+  write: LogWrite,
+  bound: LogFields,
+  name?: string,
+): Logger =>
+  newLoggerWith(
+    (l, s, fields, e) => {
+      if (isLevelEnabled(levels.level(name), l)) {
+        write(l, s, { ...bound, ...fields }, e);
+      }
+    },
+    (fields) => newCoreLogger(levels, write, { ...bound, ...fields }, name),
+    (n) => {
+      const full = name ? `${name}.${n}` : n;
+      return newCoreLogger(levels, write, { ...bound, logger: full }, full);
+    },
+  );
+
+interface RateLimitState {
+  interval: number;
+  max: number;
+  now: () => number;
+  windows: Map<string, { start: number; count: number }>;
+  swept: number; // 最後に期限切れの期間を取り除いた時刻
+}
+
+// 期限切れの期間を取り除く (メッセージの種類だけ Map が増え続けないように, 期間ごとに 1 回)
+// まとめた件数がある期間は, 次の期間の最初のログに付けるため 1 期間長く残す
+const sweepWindows = (state: RateLimitState, now: number): void => {
+  if (now - state.swept < state.interval) {
+    return;
+  }
+  state.swept = now;
+  for (const [key, w] of state.windows) {
+    const age = now - w.start;
+    if (
+      age >= state.interval * 2 ||
+      (age >= state.interval && w.count <= state.max)
+    ) {
+      state.windows.delete(key);
+    }
+  }
+};
+
+// 名前付きロガーごとに別々にまとめる (同じメッセージでもモジュールが違えば抑制しない)
+const newRateLimitLogger = (
+  logger: Logger,
+  state: RateLimitState,
+  name?: string,
+): Logger =>
+  newLoggerWith(
+    (l, s, fields, e) => {
+      const key = JSON.stringify([l, name ?? null, s]);
+      const now = state.now();
+      sweepWindows(state, now);
+      const w = state.windows.get(key);
+      if (w && now - w.start < state.interval) {
+        w.count++;
+        if (w.count <= state.max) {
+          logger[l](s, fields, e);
+        }
+        return;
+      }
+      // 新しい期間を始める. 前の期間にまとめた件数があれば付ける
+      state.windows.set(key, { start: now, count: 1 });
+      const suppressed = w ? w.count - state.max : 0;
+      logger[l](s, suppressed > 0 ? { ...fields, suppressed } : fields, e);
+    },
+    (fields) => newRateLimitLogger(logger.child(fields), state, name),
+    (n) =>
+      newRateLimitLogger(logger.named(n), state, name ? `${name}.${n}` : n),
+  );
@@ -0,0 +1,165 @@
+import { AppError, type SerializedError } from "../../error.js";
+
+// マスク後の値
+export const REDACTED = "[REDACTED]";
+
+// 値のパターンと置き換え方
+export interface RedactPattern {
+  pattern: RegExp;
+  replace: string | ((match: string, ...groups: string[]) => string);
+}
+
+export interface RedactOptions {
+  paths?: string[]; // 値ごとマスクするキーのパス. 末尾が一致すればマスクする ("password", "headers.authorization")
+  patterns?: RedactPattern[]; // 文字列中をマスクするパターン
+  defaults?: boolean; // false の場合, デフォルトのパス / パターンを使わない
+}
+
+export interface Redactor {
+  text: (s: string) => string; // 文字列をマスクする
+  value: (v: unknown) => unknown; // オブジェクトをたどってマスクする
+  error: (e: AppError) => SerializedError; // エラーをシリアライズしてマスクする
+}
+
+// Authorization / Cookie ヘッダ
+export const DEFAULT_REDACT_PATHS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "cf-access-jwt-assertion",
+];
+
+export const DEFAULT_REDACT_PATTERNS: RedactPattern[] = [
+  // JWT (header.payload.signature)
+  {
+    pattern: /eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    replace: REDACTED,
+  },
+  // Authorization ヘッダの値
+  {
+    pattern: /\b(Bearer|Basic)\s+[^\s",;]+/gi,
+    replace: (_, scheme) => `${scheme} ${REDACTED}`,
+  },
+  // メールアドレスは先頭 1 文字とドメインを残す
+  {
+    pattern:
+      /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+)/g,
+    replace: (_, head, domain) => `${head}***@${domain}`,
+  },
+];
+
+// オブジェクトをたどる深さの上限
+const MAX_DEPTH = 10;
+
+/**
+ * ログに出力する値から秘密情報と個人情報をマスクする
+ *
+ * paths に一致するキーの値は丸ごと, それ以外の文字列は patterns に一致した部分をマスクする.
+ * デフォルトでは JWT, Authorization / Cookie ヘッダ, メールアドレスを対象にする
+ *
+ * @example
+ * ```typescript
+ * const r = newRedactor({ paths: ["password"] });
+ * r.text("user test@example.com logged in"); // "user t***@example.com logged in"
+ * r.value({ password: "p@ss", headers: { Authorization: "Bearer xxx" } });
+ * // { password: "[REDACTED]", headers: { Authorization: "[REDACTED]" } }
+ * ```
+ */
+export const newRedactor = (opts: RedactOptions = {}): Redactor => {
+  const useDefaults = opts.defaults ?? true;
+  const paths = [
+    ...(useDefaults ? DEFAULT_REDACT_PATHS : []),
+    ...(opts.paths ?? []),
+  ].map((p) => p.toLowerCase().split("."));
+  const patterns = [
+    ...(useDefaults ? DEFAULT_REDACT_PATTERNS : []),
+    ...(opts.patterns ?? []),
+  ].map(({ pattern, replace }) => ({
+    // 文字列中のすべての一致を置き換えるため g フラグを付ける
+    pattern: pattern.global
+      ? pattern
+      : new RegExp(pattern.source, `${pattern.flags}g`),
+    replace,
+  }));
+
+  const text = (s: string): string =>
+    patterns.reduce(
+      (acc, { pattern, replace }) =>
+        typeof replace === "string"
+          ? acc.replace(pattern, replace)
+          : acc.replace(pattern, replace),
+      s,
+    );
+
+  const matchPath = (path: string[]): boolean =>
+    paths.some(
+      (p) =>
+        p.length <= path.length &&
+        p.every((seg, i) => seg === path[path.length - p.length + i]),
+    );
+
+  const walk = (v: unknown, path: string[], seen: WeakSet<object>): unknown => {
+    if (path.length > 0 && matchPath(path)) {
+      return REDACTED;
+    }
+    if (typeof v === "string") {
+      return text(v);
+    }
+    if (v === null || typeof v !== "object" || v instanceof Date) {
+      return v;
+    }
+    if (seen.has(v)) {
+      return "[Circular]";
+    }
+    if (path.length >= MAX_DEPTH) {
+      return "[Truncated]";
+    }
+    seen.add(v);
+    const result = walkObject(v, path, seen);
+    seen.delete(v);
+    return result;
+  };
+
+  const walkObject = (
+    v: object,
+    path: string[],
+    seen: WeakSet<object>,
+  ): unknown => {
+    if (v instanceof Error) {
+      const json =
+        v instanceof AppError
+          ? v.toJSON()
+          : { name: v.name, message: v.message, stack: v.stack };
+      return walk(json, path, seen);
+    }
+    if (v instanceof Headers) {
+      return walk(Object.fromEntries(v.entries()), path, seen);
+    }
+    if (hasToJSON(v)) {
+      // toJSON で出力する内容を決めている値 (lib/config の設定など)
+      return walk(v.toJSON(), path, seen);
+    }
+    if (Array.isArray(v)) {
+      return v.map((x) => walk(x, path, seen));
+    }
+    return Object.fromEntries(
+      Object.entries(v).map(([k, x]) => [
+        k,
+        walk(x, [...path, k.toLowerCase()], seen),
+      ]),
+    );
+  };
+
+  return {
+    text,
+    value: (v: unknown): unknown => walk(v, [], new WeakSet()),
+    error: (e: AppError): SerializedError =>
+      walk(e.toJSON(), [], new WeakSet()) as SerializedError,
+  };
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const hasToJSON = (v: object): v is { toJSON: () => unknown } =>
+  typeof (v as { toJSON?: unknown }).toJSON === "function";
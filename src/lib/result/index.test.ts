@@ -0,0 +1,326 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import {
+  ConflictError,
+  NotFoundError,
+  SystemError,
+  TimeoutError,
+  UnavailableError,
+  ValidationError,
+} from "../../error.js";
+import {
+  collectAll,
+  isRetryable,
+  retry,
+  traverse,
+  traverseAll,
+  withTimeout,
+} from "./index.js";
+
+// 解決済みの Promise の続きを実行させる (setImmediate は fake timers の対象外)
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// 待機中のタイマーを登録させてから ms 進める
+const tick = async (ms: number) => {
+  await flush();
+  jest.advanceTimersByTime(ms);
+  await flush();
+};
+
+// ms 後に値を返す ResultAsync
+const delayed = <T>(ms: number, value: T) =>
+  ResultAsync.fromSafePromise(
+    new Promise<T>((resolve) => setTimeout(() => resolve(value), ms)),
+  );
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("retry", () => {
+  it("SystemError の場合は指数バックオフで再実行すること", async () => {
+    const calls: number[] = [];
+    const waits: number[] = [];
+    const result = retry(
+      (attempt) => {
+        calls.push(attempt);
+        return attempt < 3
+          ? errAsync(new UnavailableError("down"))
+          : okAsync("ok");
+      },
+      { backoff: 100, onRetry: (_, __, wait) => waits.push(wait) },
+    );
+
+    await tick(0);
+    expect(calls).toEqual([1]);
+    await tick(50);
+    expect(calls).toEqual([1]);
+    await tick(50);
+    expect(calls).toEqual([1, 2]);
+    await tick(100);
+    expect(calls).toEqual([1, 2]);
+    await tick(100);
+    expect(calls).toEqual([1, 2, 3]);
+
+    expect((await result)._unsafeUnwrap()).toBe("ok");
+    expect(waits).toEqual([100, 200]);
+  });
+
+  it("attempts 回失敗したら最後のエラーを返すこと", async () => {
+    let n = 0;
+    const result = retry(() => errAsync(new SystemError(`fail ${++n}`)), {
+      attempts: 3,
+      backoff: 10,
+    });
+
+    await tick(10);
+    await tick(20);
+    const e = (await result)._unsafeUnwrapErr();
+    expect(e.message).toBe("fail 3");
+    expect(n).toBe(3);
+  });
+
+  it("UserError は retryIf に関わらず再実行しないこと", async () => {
+    let n = 0;
+    const result = await retry(
+      () => {
+        n++;
+        return errAsync(new NotFoundError("not found"));
+      },
+      { retryIf: () => true },
+    );
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+    expect(n).toBe(1);
+  });
+
+  it("retryIf が false の場合は再実行しないこと", async () => {
+    let n = 0;
+    const result = await retry(
+      () => {
+        n++;
+        return errAsync(new SystemError("fatal"));
+      },
+      { retryIf: (e) => !(e instanceof SystemError) },
+    );
+
+    expect(result.isErr()).toBe(true);
+    expect(n).toBe(1);
+  });
+
+  it("jitter の分だけ待ち時間を短くし, maxBackoff を超えないこと", async () => {
+    const waits: number[] = [];
+    const result = retry(() => errAsync(new SystemError("x")), {
+      attempts: 4,
+      backoff: 1000,
+      maxBackoff: 1500,
+      jitter: 0.5,
+      random: () => 1,
+      onRetry: (_, __, wait) => waits.push(wait),
+    });
+
+    await tick(500);
+    await tick(750);
+    await tick(750);
+    expect((await result).isErr()).toBe(true);
+    expect(waits).toEqual([500, 750, 750]);
+  });
+
+  it("isRetryable は UserError 以外を true にすること", () => {
+    expect(isRetryable(new SystemError("x"))).toBe(true);
+    expect(isRetryable(new TimeoutError("x"))).toBe(true);
+    expect(isRetryable(new TypeError("fetch failed"))).toBe(true);
+    expect(isRetryable(new ValidationError("x"))).toBe(false);
+    expect(isRetryable(new ConflictError("x"))).toBe(false);
+  });
+});
+
+describe("withTimeout", () => {
+  it("時間内に終わればその結果を返すこと", async () => {
+    const result = withTimeout(delayed(100, "done"), 200);
+
+    await tick(100);
+    expect((await result)._unsafeUnwrap()).toBe("done");
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("時間内に終わらなければ TimeoutError を返すこと", async () => {
+    const result = withTimeout(delayed(500, "done"), 200);
+
+    await tick(200);
+    const e = (await result)._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(TimeoutError);
+    expect(e.message).toBe("Timed out after 200ms");
+  });
+
+  it("関数を渡した場合はタイムアウト時に AbortSignal で中断すること", async () => {
+    let signal: AbortSignal | undefined;
+    const result = withTimeout((s) => {
+      signal = s;
+      return delayed(500, "done");
+    }, 200);
+
+    expect(signal?.aborted).toBe(false);
+    await tick(200);
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(TimeoutError);
+    expect((await result).isErr()).toBe(true);
+  });
+});
+
+describe("traverse", () => {
+  it("concurrency 件ずつ実行して順番通りに結果を返すこと", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const result = traverse(
+      [300, 100, 200, 100],
+      (ms, i) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        return delayed(ms, i).map((v) => {
+          running--;
+          return v * 10;
+        });
+      },
+      { concurrency: 2 },
+    );
+
+    for (let i = 0; i < 5; i++) {
+      await tick(100);
+    }
+    expect((await result)._unsafeUnwrap()).toEqual([0, 10, 20, 30]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("最初のエラーで止めて, 新しい処理を始めないこと", async () => {
+    const started: number[] = [];
+    const result = traverse(
+      [1, 2, 3, 4],
+      (n) => {
+        started.push(n);
+        return n === 2
+          ? delayed(100, n).andThen(() => errAsync(new SystemError("fail 2")))
+          : delayed(200, n);
+      },
+      { concurrency: 2 },
+    );
+
+    await tick(100);
+    const e = (await result)._unsafeUnwrapErr();
+    expect(e.message).toBe("fail 2");
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("空の配列は空の配列を返すこと", async () => {
+    expect((await traverse([], () => okAsync(1)))._unsafeUnwrap()).toEqual([]);
+  });
+
+  it("concurrency が 1 未満や NaN の場合は 1 件ずつ実行すること", async () => {
+    for (const concurrency of [Number.NaN, 0, -1, 0.5]) {
+      let running = 0;
+      let maxRunning = 0;
+      const result = traverse(
+        [100, 100, 100],
+        (ms, i) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          return delayed(ms, i).map((v) => {
+            running--;
+            return v;
+          });
+        },
+        { concurrency },
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await tick(100);
+      }
+      expect((await result)._unsafeUnwrap()).toEqual([0, 1, 2]);
+      expect(maxRunning).toBe(1);
+    }
+  });
+
+  it("fn が例外を投げた場合は新しい処理を始めずに reject すること", async () => {
+    const started: number[] = [];
+    const boom = new Error("boom");
+    const result = traverse(
+      [1, 2, 3],
+      (n) => {
+        started.push(n);
+        if (n === 2) {
+          throw boom;
+        }
+        return delayed(100, n);
+      },
+      { concurrency: 1 },
+    );
+
+    const rejected = result.then(
+      () => undefined,
+      (e: unknown) => e,
+    );
+    await tick(100);
+    expect(await rejected).toBe(boom);
+    expect(started).toEqual([1, 2]);
+  });
+
+  it("fn の Promise が reject された場合は reject すること", async () => {
+    const boom = new Error("boom");
+    const result = traverse([1, 2], (n) =>
+      n === 1
+        ? new ResultAsync<number, SystemError>(Promise.reject(boom))
+        : delayed(100, n),
+    );
+
+    await expect(Promise.resolve(result)).rejects.toBe(boom);
+  });
+});
+
+describe("traverseAll / collectAll", () => {
+  it("すべてのエラーを集めて ValidationError は 1 つにまとめること", async () => {
+    const result = traverseAll(
+      ["ok", "invalid-a", "conflict", "invalid-b"],
+      (s) =>
+        delayed(100, s).andThen((v) =>
+          v.startsWith("invalid")
+            ? errAsync<string, ValidationError | ConflictError>(
+                new ValidationError(v, [`${v}: invalid`]),
+              )
+            : v === "conflict"
+              ? errAsync(new ConflictError(v))
+              : okAsync(v),
+        ),
+      { concurrency: 1 },
+    );
+
+    for (let i = 0; i < 4; i++) {
+      await tick(100);
+    }
+    const errors = (await result)._unsafeUnwrapErr();
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(ValidationError);
+    expect(errors[0].details).toEqual([
+      "invalid-a: invalid",
+      "invalid-b: invalid",
+    ]);
+    expect(errors[1]).toBeInstanceOf(ConflictError);
+  });
+
+  it("collectAll はすべて成功した場合に値の配列を返すこと", async () => {
+    const result = collectAll([delayed(200, 1), delayed(100, 2), okAsync(3)]);
+
+    await tick(200);
+    expect((await result)._unsafeUnwrap()).toEqual([1, 2, 3]);
+  });
+
+  it("collectAll は ValidationError が 1 つの場合はそのまま返すこと", async () => {
+    const e = new ValidationError("name is invalid");
+    const result = await collectAll([okAsync(1), errAsync(e)]);
+
+    expect(result._unsafeUnwrapErr()).toEqual([e]);
+  });
+});
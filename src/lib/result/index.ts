@@ -0,0 +1,254 @@
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import {
+  mergeValidationError,
+  TimeoutError,
+  UserError,
+  ValidationError,
+} from "../../error.js";
+
+export interface RetryOptions<E> {
+  attempts?: number; // 最大試行回数 (初回を含む). デフォルト 3
+  backoff?: number; // 1 回目のリトライまでの待ち時間 (ミリ秒). 以後 2 倍ずつ増やす. デフォルト 100
+  maxBackoff?: number; // 待ち時間の上限 (ミリ秒). デフォルト 10000
+  jitter?: number; // 待ち時間を最大この割合だけ短くする (0 - 1). デフォルト 0
+  retryIf?: (e: E, attempt: number) => boolean; // リトライするか. UserError はこの結果に関わらずリトライしない
+  onRetry?: (e: E, attempt: number, wait: number) => void; // リトライの前に呼ぶ (ログ出力など)
+  random?: () => number; // テスト用
+}
+
+export interface TraverseOptions {
+  concurrency?: number; // 同時に実行する数. デフォルトは制限なし. 小数は切り捨て, 1 未満や NaN は 1
+}
+
+/**
+ * SystemError のようにリトライで回復しうるエラーか
+ *
+ * UserError はリトライしても結果が変わらないので false. AppError 以外の例外 (fetch の TypeError など) は true
+ */
+export const isRetryable = (e: unknown): boolean => !(e instanceof UserError);
+
+/**
+ * ResultAsync を返す処理を, 失敗したら指数バックオフで再実行する
+ *
+ * @example
+ * ```typescript
+ * retry((attempt) => fetchUser(id), {
+ *   attempts: 5,
+ *   backoff: 200,
+ *   jitter: 0.5,
+ *   onRetry: (e, attempt, wait) => logger.warn(`retry ${attempt}`, { wait }, e),
+ * });
+ * ```
+ */
+export const retry = <T, E>(
+  fn: (attempt: number) => ResultAsync<T, E>,
+  opts: RetryOptions<E> = {},
+): ResultAsync<T, E> => {
+  const attempts = opts.attempts ?? 3;
+  const backoff = opts.backoff ?? 100;
+  const maxBackoff = opts.maxBackoff ?? 10_000;
+  const jitter = opts.jitter ?? 0;
+  const retryIf = opts.retryIf ?? (() => true);
+  const random = opts.random ?? Math.random;
+
+  const run = (attempt: number): ResultAsync<T, E> =>
+    fn(attempt).orElse((e) => {
+      if (attempt >= attempts || !isRetryable(e) || !retryIf(e, attempt)) {
+        return err(e);
+      }
+      const delay = Math.min(backoff * 2 ** (attempt - 1), maxBackoff);
+      const wait = Math.round(delay * (1 - jitter * random()));
+      opts.onRetry?.(e, attempt, wait);
+      return ResultAsync.fromSafePromise(sleep(wait)).andThen(() =>
+        run(attempt + 1),
+      );
+    });
+
+  return run(1);
+};
+
+/**
+ * ms ミリ秒以内に終わらなければ TimeoutError にする
+ *
+ * 関数を渡した場合は, タイムアウト時に AbortSignal で処理を中断できる
+ *
+ * @example
+ * ```typescript
+ * withTimeout(fetchUser(id), 3000);
+ * withTimeout((signal) => ResultAsync.fromPromise(fetch(url, { signal }), toSystemError), 3000);
+ * ```
+ */
+export const withTimeout = <T, E>(
+  task: ResultAsync<T, E> | ((signal: AbortSignal) => ResultAsync<T, E>),
+  ms: number,
+  message = `Timed out after ${ms}ms`,
+): ResultAsync<T, E | TimeoutError> => {
+  const controller = new AbortController();
+  const target = typeof task === "function" ? task(controller.signal) : task;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Result<T, E | TimeoutError>>((resolve) => {
+    timer = setTimeout(() => {
+      const e = new TimeoutError(message, [`timeout: ${ms}ms`]);
+      controller.abort(e);
+      resolve(err(e));
+    }, ms);
+  });
+  return new ResultAsync(
+    Promise.race<Result<T, E | TimeoutError>>([
+      target.then((r): Result<T, E | TimeoutError> => r),
+      timeout,
+    ]).finally(() => clearTimeout(timer)),
+  );
+};
+
+/**
+ * items のそれぞれに fn を実行して結果を配列にする. 最初のエラーで止める
+ *
+ * 結果の順番は items の順番. エラーの後は新しい処理を始めない (実行中の処理は待たない)
+ *
+ * fn が例外を投げた場合や Promise が reject された場合は, 新しい処理を始めずに ResultAsync を reject する
+ *
+ * @example
+ * ```typescript
+ * traverse(ids, (id) => fetchUser(id), { concurrency: 5 }); // ResultAsync<User[], E>
+ * ```
+ */
+export const traverse = <T, U, E>(
+  items: readonly T[],
+  fn: (item: T, index: number) => ResultAsync<U, E>,
+  opts: TraverseOptions = {},
+): ResultAsync<U[], E> => {
+  const values: U[] = [];
+  let failed: { error: E } | undefined;
+  return new ResultAsync(
+    runPool(items, fn, opts.concurrency, (r, i) =>
+      r.match(
+        (v) => {
+          values[i] = v;
+          return true;
+        },
+        (error) => {
+          failed = { error };
+          return false;
+        },
+      ),
+    ).then(() => (failed ? err(failed.error) : ok(values))),
+  );
+};
+
+/**
+ * items のそれぞれに fn を実行して結果を配列にする. エラーで止めずにすべてのエラーを集める
+ *
+ * ValidationError は mergeValidationError で 1 つにまとめる
+ *
+ * @example
+ * ```typescript
+ * traverseAll(rows, (row) => importRow(row), { concurrency: 10 });
+ * // err([ValidationError (全行の入力エラー), ConflictError, ...])
+ * ```
+ */
+export const traverseAll = <T, U, E>(
+  items: readonly T[],
+  fn: (item: T, index: number) => ResultAsync<U, E>,
+  opts: TraverseOptions = {},
+): ResultAsync<U[], E[]> => {
+  const results: Result<U, E>[] = [];
+  return new ResultAsync(
+    runPool(items, fn, opts.concurrency, (r, i) => {
+      results[i] = r;
+      return true;
+    }).then(() => {
+      const errors = results.flatMap((r) => (r.isErr() ? [r.error] : []));
+      return errors.length > 0
+        ? err(mergeErrors(errors))
+        : ok(results.map((r) => r._unsafeUnwrap()));
+    }),
+  );
+};
+
+/**
+ * ResultAsync の配列をまとめる. エラーで止めずにすべてのエラーを集める
+ *
+ * ValidationError は mergeValidationError で 1 つにまとめる
+ *
+ * @example
+ * ```typescript
+ * collectAll([newName(body.name), checkEmailUnique(body.email)]);
+ * ```
+ */
+export const collectAll = <T, E>(
+  results: readonly ResultAsync<T, E>[],
+): ResultAsync<T[], E[]> => traverseAll(results, (r) => r);
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// concurrency 件ずつ fn を実行する. onResult が false を返したら新しい処理を始めずに終える
+//
+// fn や onResult が例外を投げた場合は新しい処理を始めずに reject する
+const runPool = <T, U, E>(
+  items: readonly T[],
+  fn: (item: T, index: number) => ResultAsync<U, E>,
+  concurrency = Number.POSITIVE_INFINITY,
+  onResult: (r: Result<U, E>, index: number) => boolean,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    // NaN や 0 のままだと 1 件も始めずに終わらなくなる
+    const limit = concurrency >= 1 ? Math.floor(concurrency) : 1;
+    let next = 0;
+    let running = 0;
+    let stopped = false;
+
+    const fail = (e: unknown): void => {
+      if (!stopped) {
+        stopped = true;
+        reject(e);
+      }
+    };
+
+    const start = (): void => {
+      while (!stopped && next < items.length && running < limit) {
+        const i = next++;
+        running++;
+        // fn が同期的に投げた例外も reject として扱う
+        new Promise<Result<U, E>>((done) => done(fn(items[i], i)))
+          .then((r) => {
+            running--;
+            if (stopped) {
+              return;
+            }
+            if (!onResult(r, i)) {
+              stopped = true;
+              resolve();
+            } else if (next >= items.length && running === 0) {
+              resolve();
+            } else {
+              start();
+            }
+          })
+          .catch(fail);
+      }
+    };
+
+    if (items.length === 0) {
+      resolve();
+    } else {
+      start();
+    }
+  });
+
+// ValidationError を最初の ValidationError の位置に 1 つにまとめる
+const mergeErrors = <E>(errors: E[]): E[] => {
+  const validations = errors.filter((e) => e instanceof ValidationError);
+  if (validations.length < 2) {
+    return errors;
+  }
+  const merged = mergeValidationError(validations) as E;
+  const first = errors.findIndex((e) => e instanceof ValidationError);
+  return errors.flatMap((e, i) =>
+    i === first ? [merged] : e instanceof ValidationError ? [] : [e],
+  );
+};
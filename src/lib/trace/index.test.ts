@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import { okAsync } from "neverthrow";
+import { newLogMemory } from "../../adapter/log-memory/index.js";
+import type { Fetch } from "../../interface.js";
+import {
+  formatTraceparent,
+  parseTraceparent,
+  startSpan,
+  tracedFetch,
+  traceFromRequest,
+  traceLogger,
+  withSpan,
+} from "./index.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+describe("parseTraceparent", () => {
+  it("traceparent をパースできること", () => {
+    expect(parseTraceparent(TRACEPARENT)._unsafeUnwrap()).toEqual({
+      version: "00",
+      traceId: TRACE_ID,
+      parentId: PARENT_ID,
+      flags: 1,
+    });
+  });
+
+  it("不正な traceparent は ValidationError になること", () => {
+    for (const header of [
+      "",
+      `ff-${TRACE_ID}-${PARENT_ID}-01`,
+      `00-${TRACE_ID}-${PARENT_ID}-01-extra`,
+      `00-${"0".repeat(32)}-${PARENT_ID}-01`,
+      `00-${TRACE_ID}-${"0".repeat(16)}-01`,
+      `00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`,
+      `00-${TRACE_ID}-${PARENT_ID}-1`,
+    ]) {
+      expect(parseTraceparent(header)._unsafeUnwrapErr().code).toBe(
+        "Validation Error",
+      );
+    }
+  });
+});
+
+describe("traceFromRequest", () => {
+  it("traceparent の trace を引き継ぎ, 新しい spanId を作ること", () => {
+    const req = new Request("https://app.example.com", {
+      headers: { traceparent: TRACEPARENT, tracestate: "vendor=abc" },
+    });
+    const ctx = traceFromRequest(req);
+    expect(ctx.traceId).toBe(TRACE_ID);
+    expect(ctx.parentSpanId).toBe(PARENT_ID);
+    expect(ctx.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(ctx.spanId).not.toBe(PARENT_ID);
+    expect(ctx.sampled).toBe(true);
+    expect(ctx.traceState).toBe("vendor=abc");
+  });
+
+  it("traceparent がなければ新しい trace を始めること", () => {
+    const ctx = traceFromRequest(new Request("https://app.example.com"));
+    expect(ctx.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(ctx.parentSpanId).toBeUndefined();
+    expect(formatTraceparent(ctx)).toBe(`00-${ctx.traceId}-${ctx.spanId}-01`);
+  });
+});
+
+describe("tracedFetch", () => {
+  it("送信するリクエストに traceparent / tracestate を付けること", async () => {
+    const ctx = traceFromRequest(
+      new Request("https://app.example.com", {
+        headers: { traceparent: TRACEPARENT, tracestate: "vendor=abc" },
+      }),
+    );
+    let sent: Request | undefined;
+    const fetchFn: Fetch = async (input) => {
+      sent = input as Request;
+      return new Response("ok");
+    };
+
+    await tracedFetch(ctx, fetchFn)("https://users.internal/api", {
+      headers: { Accept: "application/json" },
+    });
+
+    expect(sent?.headers.get("traceparent")).toBe(
+      `00-${TRACE_ID}-${ctx.spanId}-01`,
+    );
+    expect(sent?.headers.get("tracestate")).toBe("vendor=abc");
+    expect(sent?.headers.get("Accept")).toBe("application/json");
+  });
+});
+
+describe("span", () => {
+  it("ログに traceId / spanId を付けること", () => {
+    const logger = newLogMemory();
+    const ctx = traceFromRequest(new Request("https://app.example.com"));
+    traceLogger(logger, ctx).info("hello");
+    expect(logger.entries[0].fields).toEqual({
+      traceId: ctx.traceId,
+      spanId: ctx.spanId,
+    });
+  });
+
+  it("end でかかった時間を出力し, 遅い場合は warn にすること", () => {
+    const logger = newLogMemory();
+    const ctx = traceFromRequest(new Request("https://app.example.com"));
+
+    const fast = startSpan(logger, ctx, "cache.get", { slowThreshold: 60_000 });
+    fast.end({ hit: true });
+    const slow = startSpan(logger, ctx, "db.query", { slowThreshold: 0 });
+    slow.end();
+    slow.end();
+
+    expect(logger.entries).toHaveLength(2);
+    expect(logger.entries[0]).toMatchObject({
+      level: "debug",
+      message: "span cache.get ended",
+      fields: {
+        traceId: ctx.traceId,
+        parentSpanId: ctx.spanId,
+        span: "cache.get",
+        hit: true,
+      },
+    });
+    expect(logger.entries[0].fields.spanId).toBe(fast.context.spanId);
+    expect(typeof logger.entries[0].fields.duration).toBe("number");
+    expect(logger.entries[1].level).toBe("warn");
+  });
+
+  it("withSpan は ResultAsync の完了で span を終了すること", async () => {
+    const logger = newLogMemory();
+    const ctx = traceFromRequest(new Request("https://app.example.com"));
+    const v = await withSpan(logger, ctx, "users.fetch", () => okAsync(1));
+    expect(v._unsafeUnwrap()).toBe(1);
+    expect(logger.entries[0].message).toBe("span users.fetch ended");
+  });
+});
@@ -0,0 +1,271 @@
+import { err, ok, type Result, type ResultAsync } from "neverthrow";
+import { ValidationError } from "../../error.js";
+import type { Fetch, LogFields, Logger } from "../../interface.js";
+
+/**
+ * W3C Trace Context
+ *
+ * https://www.w3.org/TR/trace-context/
+ */
+export interface TraceContext {
+  traceId: string; // 32 桁の hex
+  spanId: string; // 16 桁の hex. このサービスでの処理の ID
+  parentSpanId?: string; // 呼び出し元の spanId
+  sampled: boolean; // trace-flags の sampled ビット
+  traceState?: string; // tracestate ヘッダ (そのまま引き継ぐ)
+}
+
+// traceparent ヘッダの内容
+export interface TraceParent {
+  version: string;
+  traceId: string;
+  parentId: string;
+  flags: number;
+}
+
+export interface Span {
+  readonly context: TraceContext;
+  readonly logger: Logger; // traceId / spanId / span を付けたロガー
+  end: (fields?: LogFields) => number; // span を終了してかかった時間 (ミリ秒) を返す
+}
+
+export interface SpanOptions {
+  slowThreshold?: number; // この時間 (ミリ秒) 以上かかった場合は warn で出力する
+  fields?: LogFields; // span のロガーに付けるフィールド
+}
+
+const TRACEPARENT = "traceparent";
+const TRACESTATE = "tracestate";
+
+/**
+ * 新しい traceId (16 バイト) を生成する
+ */
+export const newTraceId = (): string => randomHex(16);
+
+/**
+ * 新しい spanId (8 バイト) を生成する
+ */
+export const newSpanId = (): string => randomHex(8);
+
+/**
+ * traceparent ヘッダをパースする
+ *
+ * @example
+ * ```typescript
+ * parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+ * // ok({ version: "00", traceId: "4bf9...", parentId: "00f0...", flags: 1 })
+ * ```
+ */
+export const parseTraceparent = (
+  header: string,
+): Result<TraceParent, ValidationError> => {
+  const parts = header.trim().split("-");
+  const [version, traceId, parentId, flags] = parts;
+  if (
+    parts.length < 4 ||
+    !/^[0-9a-f]{2}$/.test(version) ||
+    version === "ff" ||
+    (version === "00" && parts.length !== 4)
+  ) {
+    return err(new ValidationError("Invalid traceparent version", [header]));
+  }
+  if (!/^[0-9a-f]{32}$/.test(traceId) || /^0+$/.test(traceId)) {
+    return err(
+      new ValidationError("Invalid trace-id in traceparent", [header]),
+    );
+  }
+  if (!/^[0-9a-f]{16}$/.test(parentId) || /^0+$/.test(parentId)) {
+    return err(
+      new ValidationError("Invalid parent-id in traceparent", [header]),
+    );
+  }
+  if (!/^[0-9a-f]{2}$/.test(flags)) {
+    return err(
+      new ValidationError("Invalid trace-flags in traceparent", [header]),
+    );
+  }
+  return ok({ version, traceId, parentId, flags: parseInt(flags, 16) });
+};
+
+/**
+ * TraceContext を traceparent ヘッダの値にする
+ */
+export const formatTraceparent = (ctx: TraceContext): string =>
+  `00-${ctx.traceId}-${ctx.spanId}-${ctx.sampled ? "01" : "00"}`;
+
+/**
+ * リクエストの traceparent / tracestate からこのサービスの TraceContext を作る
+ *
+ * traceparent がない (または不正な) 場合は新しい trace を始める
+ *
+ * @example
+ * ```typescript
+ * const trace = traceFromRequest(req);
+ * const log = traceLogger(logger, trace);
+ * ```
+ */
+export const traceFromRequest = (req: Request): TraceContext => {
+  const header = req.headers.get(TRACEPARENT);
+  const parent = header ? parseTraceparent(header) : undefined;
+  if (!parent || parent.isErr()) {
+    return newTrace();
+  }
+  return {
+    traceId: parent.value.traceId,
+    spanId: newSpanId(),
+    parentSpanId: parent.value.parentId,
+    sampled: (parent.value.flags & 0x01) === 0x01,
+    traceState: req.headers.get(TRACESTATE) ?? undefined,
+  };
+};
+
+/**
+ * 新しい trace を始める
+ */
+export const newTrace = (sampled = true): TraceContext => ({
+  traceId: newTraceId(),
+  spanId: newSpanId(),
+  sampled,
+});
+
+/**
+ * TraceContext を子 span の TraceContext にする (traceId はそのまま)
+ */
+export const childTrace = (ctx: TraceContext): TraceContext => ({
+  ...ctx,
+  spanId: newSpanId(),
+  parentSpanId: ctx.spanId,
+});
+
+/**
+ * traceparent / tracestate を付けたヘッダを返す
+ */
+export const traceHeaders = (
+  ctx: TraceContext,
+  headers?: HeadersInit,
+): Headers => {
+  const h = new Headers(headers);
+  h.set(TRACEPARENT, formatTraceparent(ctx));
+  if (ctx.traceState) {
+    h.set(TRACESTATE, ctx.traceState);
+  } else {
+    h.delete(TRACESTATE);
+  }
+  return h;
+};
+
+/**
+ * 送信するリクエストに TraceContext を付ける fetch を返す
+ *
+ * @example
+ * ```typescript
+ * const fetchWithTrace = tracedFetch(trace);
+ * await fetchWithTrace("https://users.internal/api/users/1");
+ * ```
+ */
+export const tracedFetch =
+  (ctx: TraceContext, fetchFn: Fetch = defaultFetch): Fetch =>
+  (input, init) => {
+    const req = new Request(input, init);
+    return fetchFn(
+      new Request(req, { headers: traceHeaders(ctx, req.headers) }),
+    );
+  };
+
+/**
+ * traceId / spanId を付けた子ロガーを返す
+ */
+export const traceLogger = (logger: Logger, ctx: TraceContext): Logger =>
+  logger.child({ traceId: ctx.traceId, spanId: ctx.spanId });
+
+/**
+ * span を開始する. end でかかった時間をログに出力する
+ *
+ * 通常は debug で, slowThreshold 以上かかった場合は warn で出力する
+ *
+ * @example
+ * ```typescript
+ * const span = startSpan(logger, trace, "db.query", { slowThreshold: 500 });
+ * const rows = await db.query(sql);
+ * span.end({ rows: rows.length });
+ * ```
+ */
+export const startSpan = (
+  logger: Logger,
+  parent: TraceContext,
+  name: string,
+  opts: SpanOptions = {},
+): Span => {
+  const context = childTrace(parent);
+  const spanLogger = traceLogger(logger, context).child({
+    span: name,
+    parentSpanId: context.parentSpanId,
+    ...opts.fields,
+  });
+  const start = performance.now();
+  let ended: number | undefined;
+
+  return {
+    context,
+    logger: spanLogger,
+    end: (fields: LogFields = {}) => {
+      if (ended !== undefined) {
+        return ended; // 2 回目以降は出力しない
+      }
+      ended = Math.round(performance.now() - start);
+      const slow =
+        opts.slowThreshold !== undefined && ended >= opts.slowThreshold;
+      spanLogger[slow ? "warn" : "debug"](`span ${name} ended`, {
+        ...fields,
+        duration: ended,
+      });
+      return ended;
+    },
+  };
+};
+
+/**
+ * ResultAsync を返す処理を span で囲む. 成功しても失敗しても span を終了する
+ *
+ * @example
+ * ```typescript
+ * withSpan(logger, trace, "users.fetch", (span) =>
+ *   fetchUser(tracedFetch(span.context), id),
+ * );
+ * ```
+ */
+export const withSpan = <T, E>(
+  logger: Logger,
+  parent: TraceContext,
+  name: string,
+  fn: (span: Span) => ResultAsync<T, E>,
+  opts: SpanOptions = {},
+): ResultAsync<T, E> => {
+  const span = startSpan(logger, parent, name, opts);
+  return fn(span)
+    .map((v) => {
+      span.end();
+      return v;
+    })
+    .mapErr((e) => {
+      span.end({ failed: true });
+      return e;
+    });
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+
+// 呼び出し時点のグローバル fetch を使う
+const defaultFetch: Fetch = (input, init) => fetch(input, init);
+
+// すべて 0 の ID は無効なので生成し直す
+const randomHex = (size: number): string => {
+  const bytes = new Uint8Array(size);
+  crypto.getRandomValues(bytes);
+  const hex = Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return /^0+$/.test(hex) ? randomHex(size) : hex;
+};
@@ -1,5 +1,17 @@
 import { describe, expect, it } from "bun:test";
-import { fromShortUuid, toShortUuid, uuidv4 } from "./index.js";
+import {
+  base32Crockford,
+  base58,
+  base64Url,
+  compareUuid,
+  fromShortUuid,
+  toShortUuid,
+  ulid,
+  uuidVersion,
+  uuidv4,
+  uuidv7,
+  uuidv7Timestamp,
+} from "./index.js";
 
 describe("uuidv4", () => {
   it("有効なUUID v4文字列を生成できること", () => {
@@ -79,3 +91,133 @@ describe("toShortUuid / fromShortUuid", () => {
     expect(restored).toBe(zero);
   });
 });
+
+describe("uuidv7", () => {
+  it("有効なUUID v7文字列を生成できること", () => {
+    const uuid = uuidv7();
+    expect(uuid).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+    expect(uuidVersion(uuid)._unsafeUnwrap()).toBe(7);
+  });
+
+  it("先頭48ビットに生成時刻を持つこと", () => {
+    const before = Date.now();
+    const uuid = uuidv7();
+    const after = Date.now();
+
+    const ts = uuidv7Timestamp(uuid)._unsafeUnwrap().getTime();
+    expect(ts).toBeGreaterThanOrEqual(before);
+    expect(ts).toBeLessThanOrEqual(after + 1); // カウンタのあふれで 1ms 進む場合がある
+  });
+
+  it("同じミリ秒内でも生成順に並ぶこと", () => {
+    const uuids = Array.from({ length: 10000 }, () => uuidv7());
+    const sorted = [...uuids].sort(compareUuid);
+
+    expect(new Set(uuids).size).toBe(uuids.length);
+    expect(sorted).toEqual(uuids);
+  });
+
+  it("短縮文字列から元のUUIDに復元できること", () => {
+    const uuid = uuidv7();
+    const restored = fromShortUuid(toShortUuid(uuid)._unsafeUnwrap());
+    expect(restored._unsafeUnwrap()).toBe(uuid);
+  });
+
+  it("v7 以外のUUIDからは時刻を取り出せないこと", () => {
+    expect(uuidv7Timestamp(uuidv4()).isErr()).toBe(true);
+    expect(uuidv7Timestamp("not-a-uuid").isErr()).toBe(true);
+    expect(uuidVersion(uuidv4())._unsafeUnwrap()).toBe(4);
+  });
+});
+
+describe("compareUuid", () => {
+  it("大文字小文字を区別せずに比較できること", () => {
+    const a = "0190a1b2-0000-7000-8000-000000000000";
+    const b = "0190A1B3-0000-7000-8000-000000000000";
+    expect(compareUuid(a, b)).toBe(-1);
+    expect(compareUuid(b, a)).toBe(1);
+    expect(compareUuid(a, a.toUpperCase())).toBe(0);
+  });
+});
+
+describe("UuidEncoding", () => {
+  const ZERO = "00000000-0000-0000-0000-000000000000";
+  const MAX = "ffffffff-ffff-ffff-ffff-ffffffffffff";
+
+  for (const [encoding, pattern] of [
+    [base64Url, /^[A-Za-z0-9_-]{22}$/],
+    [base58, /^[1-9A-HJ-NP-Za-km-z]{22}$/],
+    [base32Crockford, /^[0-7][0-9a-hjkmnp-tv-z]{25}$/],
+    [ulid, /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/],
+  ] as const) {
+    describe(encoding.name, () => {
+      it("固定長で短縮し, 元のUUIDに復元できること", () => {
+        for (const uuid of [uuidv4(), uuidv7(), ZERO, MAX]) {
+          const short = toShortUuid(uuid, encoding)._unsafeUnwrap();
+          expect(short).toMatch(pattern);
+          expect(fromShortUuid(short, encoding)._unsafeUnwrap()).toBe(uuid);
+        }
+      });
+
+      it("桁数や文字種が違う場合はエラーになること", () => {
+        const short = toShortUuid(uuidv4(), encoding)._unsafeUnwrap();
+        expect(fromShortUuid(short.slice(1), encoding).isErr()).toBe(true);
+        expect(fromShortUuid(`${short}0`, encoding).isErr()).toBe(true);
+        expect(fromShortUuid(`!${short.slice(1)}`, encoding).isErr()).toBe(
+          true,
+        );
+      });
+    });
+  }
+
+  it("既知の値に変換できること", () => {
+    expect(toShortUuid(ZERO, base58)._unsafeUnwrap()).toBe("1".repeat(22));
+    expect(toShortUuid(MAX, ulid)._unsafeUnwrap()).toBe(`7${"Z".repeat(25)}`);
+  });
+
+  it("128ビットを超える値はエラーになること", () => {
+    expect(fromShortUuid(`8${"0".repeat(25)}`, ulid).isErr()).toBe(true);
+    expect(fromShortUuid("z".repeat(22), base58).isErr()).toBe(true);
+  });
+
+  it("Crockford Base32 は大文字小文字と紛らわしい文字を区別しないこと", () => {
+    const uuid = uuidv4();
+    const short = toShortUuid(uuid, base32Crockford)._unsafeUnwrap();
+    const read = short.toUpperCase().replace(/1/g, "l").replace(/0/g, "O");
+    expect(fromShortUuid(read, base32Crockford)._unsafeUnwrap()).toBe(uuid);
+  });
+
+  it("ULID も大文字小文字と紛らわしい文字 (I / L / O) を区別しないこと", () => {
+    const uuid = uuidv4();
+    const short = toShortUuid(uuid, ulid)._unsafeUnwrap();
+    for (const read of [
+      short.toLowerCase(),
+      short.replace(/1/g, "I").replace(/0/g, "O"),
+      short.replace(/1/g, "l").replace(/0/g, "o"),
+    ]) {
+      expect(fromShortUuid(read, ulid)._unsafeUnwrap()).toBe(uuid);
+    }
+    expect(fromShortUuid(`0${"U".repeat(25)}`, ulid).isErr()).toBe(true);
+  });
+
+  it("Base64URL は末尾の使わないビットが 0 でない表記を拒否すること", () => {
+    const short = toShortUuid(ZERO, base64Url)._unsafeUnwrap();
+    expect(short).toBe("A".repeat(22));
+    // 同じ 16 バイトに復元できてしまう別の表記
+    for (const last of ["B", "P", "R", "h", "x", "_"]) {
+      expect(fromShortUuid(`${"A".repeat(21)}${last}`, base64Url).isErr()).toBe(
+        true,
+      );
+    }
+    expect(fromShortUuid(`${short}==`, base64Url).isErr()).toBe(true);
+  });
+
+  it("UUID v7 を Crockford Base32 にしても生成順に並ぶこと", () => {
+    const shorts = Array.from({ length: 1000 }, () =>
+      toShortUuid(uuidv7(), base32Crockford)._unsafeUnwrap(),
+    );
+    expect([...shorts].sort()).toEqual(shorts);
+  });
+});
@@ -28,21 +28,170 @@ export const uuidv4 = (): string => {
 };
 
 // --------------------------------------------
-// UUID v4 短縮/復元（Base64URL）
+// UUID v7（RFC 9562）
 // --------------------------------------------
+
+// 同じミリ秒内の順序を保つための状態
+let lastMs = -1;
+let counter = 0;
+
+/**
+ * Web Crypto API を使用した UUID v7 生成 (RFC 9562)
+ *
+ * - 先頭 48 ビットが Unix 時刻 (ミリ秒) なので, 生成順に並ぶ (インデックスの局所性が良い)
+ * - 同じミリ秒内では rand_a (12 ビット) をカウンタとして使い, 単調増加を保証する
+ * - カウンタがあふれた場合や時計が戻った場合は, タイムスタンプを進めて単調性を優先する
+ */
+export const uuidv7 = (): string => {
+  const now = Date.now();
+  if (now > lastMs) {
+    lastMs = now;
+    counter = randomInt(0x7ff); // 上位 1 ビットを空けておき, 同じミリ秒内の増加に余裕を持たせる
+  } else if (counter < 0xfff) {
+    counter++;
+  } else {
+    lastMs++;
+    counter = randomInt(0x7ff);
+  }
+
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+
+  // unix_ts_ms (48 ビット, ビッグエンディアン)
+  const high = Math.floor(lastMs / 2 ** 32);
+  const low = lastMs % 2 ** 32;
+  bytes[0] = (high >>> 8) & 0xff;
+  bytes[1] = high & 0xff;
+  bytes[2] = (low >>> 24) & 0xff;
+  bytes[3] = (low >>> 16) & 0xff;
+  bytes[4] = (low >>> 8) & 0xff;
+  bytes[5] = low & 0xff;
+
+  // バージョンとカウンタ (rand_a), バリアントの設定
+  bytes[6] = 0x70 | (counter >>> 8); // Version 7
+  bytes[7] = counter & 0xff;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // Variant bits
+
+  return formatUuid(bytes);
+};
+
+/**
+ * UUID のバージョンを取得する
+ */
+export const uuidVersion = (uuid: string): Result<number, Error> =>
+  uuidRegex.test(uuid)
+    ? ok(parseInt(uuid.charAt(14), 16))
+    : err(new Error(`Invalid UUID format: ${uuid}`));
+
+/**
+ * UUID v7 から生成時刻を取り出す
+ */
+export const uuidv7Timestamp = (uuid: string): Result<Date, Error> =>
+  uuidVersion(uuid).andThen((version) =>
+    version === 7
+      ? ok(new Date(parseInt(uuid.replace(/-/g, "").slice(0, 12), 16)))
+      : err(new Error(`Not a UUID v7: ${uuid}`)),
+  );
+
+/**
+ * UUID を並び順で比較する (Array.prototype.sort に渡せる)
+ *
+ * UUID v7 の場合は生成順になる
+ */
+export const compareUuid = (a: string, b: string): number => {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+// --------------------------------------------
+// UUID 短縮/復元（Base64URL, Base58, Crockford Base32, ULID）
+// --------------------------------------------
+
 /**
- * UUID文字列(例: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)をBase64URLで可逆に短縮する
- * - 出力はURLセーフな 22 文字
- * - 入力はUUID v4 前提だが、16バイトのUUIDであれば一般に動作
+ * 16 バイトの UUID の文字列表現
+ *
+ * decode は encode の出力と同じ形式のみを受け付ける (桁数や文字種が違えばエラー)
  */
-export const toShortUuid = (uuid: string): Result<string, Error> =>
-  uuidToBytes(uuid).map(base64UrlEncode);
+export interface UuidEncoding {
+  name: string;
+  encode: (bytes: Uint8Array) => string;
+  decode: (s: string) => Result<Uint8Array, Error>;
+}
 
 /**
- * Base64URLで短縮されたUUID文字列(22文字)を通常のUUID表記に復元する
+ * Base64URL (22 文字). URL セーフだが大文字小文字を区別する
  */
-export const fromShortUuid = (short: string): Result<string, Error> =>
-  base64UrlDecode(short).andThen(bytesToUuid);
+export const base64Url: UuidEncoding = {
+  name: "base64url",
+  encode: (bytes) => base64UrlEncode(bytes),
+  decode: (s) => base64UrlDecode(s),
+};
+
+/**
+ * Base58 (22 文字). 0 / O / I / l を使わないので読み間違えにくい
+ */
+export const base58: UuidEncoding = {
+  name: "base58",
+  encode: (bytes) => encodeBigInt(bytesToBigInt(bytes), BASE58, 22),
+  decode: (s) => decodeBigInt(s, BASE58, 22, "Base58").andThen(bigIntToBytes),
+};
+
+/**
+ * Crockford Base32 (26 文字, 小文字). 大文字小文字を区別せず, UUID v7 は生成順に並ぶ
+ *
+ * 復元時は I / L を 1, O を 0 として読む
+ */
+export const base32Crockford: UuidEncoding = {
+  name: "base32-crockford",
+  encode: (bytes) =>
+    encodeBigInt(bytesToBigInt(bytes), CROCKFORD, 26).toLowerCase(),
+  decode: (s) =>
+    decodeBigInt(
+      normalizeCrockford(s),
+      CROCKFORD,
+      26,
+      "Crockford Base32",
+    ).andThen(bigIntToBytes),
+};
+
+/**
+ * ULID 互換の表記 (26 文字, 大文字). UUID v7 を ULID として扱うシステムと相互に変換できる
+ *
+ * 復元時は Crockford Base32 と同じく I / L を 1, O を 0 として読む
+ */
+export const ulid: UuidEncoding = {
+  name: "ulid",
+  encode: (bytes) => encodeBigInt(bytesToBigInt(bytes), CROCKFORD, 26),
+  decode: (s) =>
+    decodeBigInt(normalizeCrockford(s), CROCKFORD, 26, "ULID").andThen(
+      bigIntToBytes,
+    ),
+};
+
+/**
+ * UUID文字列(例: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)を可逆に短縮する
+ * - デフォルトはBase64URL (URLセーフな 22 文字)
+ * - 16バイトのUUIDであればバージョンに関係なく動作
+ *
+ * @example
+ * ```typescript
+ * toShortUuid(id); // "AZCh..." (Base64URL)
+ * toShortUuid(id, base32Crockford); // "01j2..." (26 文字)
+ * ```
+ */
+export const toShortUuid = (
+  uuid: string,
+  encoding: UuidEncoding = base64Url,
+): Result<string, Error> => uuidToBytes(uuid).map(encoding.encode);
+
+/**
+ * 短縮されたUUID文字列を通常のUUID表記に復元する
+ */
+export const fromShortUuid = (
+  short: string,
+  encoding: UuidEncoding = base64Url,
+): Result<string, Error> => encoding.decode(short).andThen(bytesToUuid);
 
 // ----------------------------------------------------------------------------
 // Internal Utils
@@ -68,18 +217,27 @@ const bytesToUuid = (bytes: Uint8Array): Result<string, Error> => {
   if (bytes.length !== 16) {
     return err(new Error(`Invalid byte length for UUID: ${bytes.length}`));
   }
+  return ok(formatUuid(bytes));
+};
+
+const formatUuid = (bytes: Uint8Array): string => {
   const hex = Array.from(bytes)
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
-  return ok(
-    [
-      hex.slice(0, 8),
-      hex.slice(8, 12),
-      hex.slice(12, 16),
-      hex.slice(16, 20),
-      hex.slice(20, 32),
-    ].join("-"),
-  );
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join("-");
+};
+
+// 0 以上 max 以下の乱数 (max は 2^n - 1)
+const randomInt = (max: number): number => {
+  const v = new Uint16Array(1);
+  crypto.getRandomValues(v);
+  return v[0] & max;
 };
 
 const base64UrlEncode = (bytes: Uint8Array): string => {
@@ -91,19 +249,67 @@ const base64UrlEncode = (bytes: Uint8Array): string => {
   return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
 };
 
+// 22 文字の 132 ビットのうち末尾 4 ビットは常に 0. 0 でないものは encode の出力ではないので拒否する
 const base64UrlDecode = (short: string): Result<Uint8Array, Error> => {
-  if (!/^[A-Za-z0-9_-]{22,24}$/.test(short)) {
+  if (!/^[A-Za-z0-9_-]{21}[AQgw]$/.test(short)) {
     return err(new Error(`Invalid short UUID format: ${short}`));
   }
-  let base64 = short.replace(/-/g, "+").replace(/_/g, "/");
-  const pad = base64.length % 4;
-  if (pad) base64 += "=".repeat(4 - pad);
-  try {
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-    return ok(bytes);
-  } catch (_e) {
-    return err(new Error("Invalid base64 input"));
+  const binary = atob(`${short.replace(/-/g, "+").replace(/_/g, "/")}==`);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return ok(bytes);
+};
+
+// 小文字と紛らわしい文字 (I / L -> 1, O -> 0) を Crockford Base32 の文字にする
+const normalizeCrockford = (s: string): string =>
+  s.toUpperCase().replace(/[IL]/g, "1").replace(/O/g, "0");
+
+const BASE58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const MAX_UUID = 2n ** 128n;
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  Array.from(bytes).reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+
+const bigIntToBytes = (v: bigint): Result<Uint8Array, Error> => {
+  if (v >= MAX_UUID) {
+    return err(new Error("Value is out of range for UUID"));
+  }
+  const bytes = new Uint8Array(16);
+  for (let i = 15; i >= 0; i--) {
+    bytes[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return ok(bytes);
+};
+
+// 固定桁数で alphabet の進数に変換する (先頭は 0 に当たる文字で埋める)
+const encodeBigInt = (v: bigint, alphabet: string, length: number): string => {
+  const base = BigInt(alphabet.length);
+  let s = "";
+  for (let n = v; n > 0n; n /= base) {
+    s = alphabet[Number(n % base)] + s;
+  }
+  return s.padStart(length, alphabet[0]);
+};
+
+const decodeBigInt = (
+  s: string,
+  alphabet: string,
+  length: number,
+  label: string,
+): Result<bigint, Error> => {
+  if (s.length !== length) {
+    return err(new Error(`Invalid ${label} length: ${s.length}`));
+  }
+  const base = BigInt(alphabet.length);
+  let v = 0n;
+  for (const c of s) {
+    const i = alphabet.indexOf(c);
+    if (i < 0) {
+      return err(new Error(`Invalid ${label} character: ${c}`));
+    }
+    v = v * base + BigInt(i);
   }
+  return ok(v);
 };
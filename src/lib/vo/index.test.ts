@@ -0,0 +1,169 @@
+import { describe, expect, it } from "bun:test";
+import { ValidationError } from "../../error.js";
+import { newType } from "../zod/index.js";
+import {
+  Email,
+  JapanesePhoneNumber,
+  NonEmptyString,
+  newEmail,
+  newHttpsUrl,
+  newIsoDate,
+  newIsoDateTime,
+  newJapanesePhoneNumber,
+  newMoney,
+  newNonEmptyString,
+  newPositiveInt,
+  newPostalCode,
+  newSlug,
+  newText,
+  newUrl,
+  newUserWithEmail,
+  PostalCode,
+  textSchema,
+} from "./index.js";
+
+describe("Email", () => {
+  it("前後の空白を取り除き小文字にすること", () => {
+    expect(newEmail(" Taro@Example.COM ")._unsafeUnwrap()).toBe(
+      Email.parse("taro@example.com"),
+    );
+  });
+
+  it("不正なメールアドレスはエラーにすること", () => {
+    const e = newEmail("taro", "mail")._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("mail is invalid. ( type: Email )");
+  });
+});
+
+describe("newUserWithEmail", () => {
+  it("User の mail を Email にすること", () => {
+    const user = { id: "u1", mail: "Taro@Example.com", roles: ["admin"] };
+    const checked = newUserWithEmail(user)._unsafeUnwrap();
+    expect(checked).toEqual({
+      id: "u1",
+      mail: Email.parse("taro@example.com"),
+      roles: ["admin"],
+    });
+  });
+
+  it("mail がメールアドレスでない場合は mail の ValidationError にすること", () => {
+    const e = newUserWithEmail({ id: "u1", mail: "taro" })._unsafeUnwrapErr();
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("mail is invalid. ( type: Email )");
+  });
+});
+
+describe("NonEmptyString", () => {
+  it("空白だけの文字列はエラーにすること", () => {
+    expect(newNonEmptyString(" a ")._unsafeUnwrap()).toBe(
+      NonEmptyString.parse("a"),
+    );
+    expect(newNonEmptyString("   ").isErr()).toBe(true);
+  });
+});
+
+describe("Text", () => {
+  it("上限を超える文字列はエラーにすること", () => {
+    expect(newText("a".repeat(1000)).isOk()).toBe(true);
+    expect(newText("a".repeat(1001)).isErr()).toBe(true);
+  });
+
+  it("textSchema で上限と下限を指定できること", () => {
+    const newTitle = newType(textSchema(5, 2), "Title");
+    expect(newTitle("ab").isOk()).toBe(true);
+    expect(newTitle("a").isErr()).toBe(true);
+    expect(newTitle("abcdef").isErr()).toBe(true);
+  });
+});
+
+describe("PositiveInt", () => {
+  it("正の整数のみ受け付けること", () => {
+    expect(newPositiveInt(1).isOk()).toBe(true);
+    for (const v of [0, -1, 1.5, "1"]) {
+      expect(newPositiveInt(v).isErr()).toBe(true);
+    }
+  });
+});
+
+describe("Url", () => {
+  it("http / https の URL のみ受け付けること", () => {
+    expect(newUrl("http://example.com").isOk()).toBe(true);
+    expect(newUrl("https://example.com/path?q=1").isOk()).toBe(true);
+    expect(newUrl("ftp://example.com").isErr()).toBe(true);
+    expect(newUrl("example.com").isErr()).toBe(true);
+  });
+
+  it("HttpsUrl は https のみ受け付けること", () => {
+    expect(newHttpsUrl("https://example.com").isOk()).toBe(true);
+    expect(newHttpsUrl("http://example.com").isErr()).toBe(true);
+  });
+});
+
+describe("Slug", () => {
+  it("小文字英数字とハイフンのみ受け付けること", () => {
+    expect(newSlug("my-first-post-2").isOk()).toBe(true);
+    for (const v of ["My-Post", "my post", "-post", "post-", "my--post", ""]) {
+      expect(newSlug(v).isErr()).toBe(true);
+    }
+  });
+});
+
+describe("JapanesePhoneNumber", () => {
+  it("ハイフンなどを取り除いた形にすること", () => {
+    const landline = JapanesePhoneNumber.parse("0312345678");
+    expect(newJapanesePhoneNumber("03-1234-5678")._unsafeUnwrap()).toBe(
+      landline,
+    );
+    expect(newJapanesePhoneNumber("+81 90-1234-5678")._unsafeUnwrap()).toBe(
+      JapanesePhoneNumber.parse("09012345678"),
+    );
+    expect(
+      newJapanesePhoneNumber("（０３）１２３４－５６７８")._unsafeUnwrap(),
+    ).toBe(landline);
+  });
+
+  it("桁数が合わない番号はエラーにすること", () => {
+    for (const v of ["1234-5678", "090-1234-56789", "abc"]) {
+      expect(newJapanesePhoneNumber(v).isErr()).toBe(true);
+    }
+  });
+});
+
+describe("PostalCode", () => {
+  it("ハイフン付きの形にすること", () => {
+    const expected = PostalCode.parse("100-0001");
+    for (const v of ["100-0001", "1000001", "〒１００－０００１"]) {
+      expect(newPostalCode(v)._unsafeUnwrap()).toBe(expected);
+    }
+  });
+
+  it("不正な郵便番号はエラーにすること", () => {
+    for (const v of ["100-001", "10000001", "abc-defg"]) {
+      expect(newPostalCode(v).isErr()).toBe(true);
+    }
+  });
+});
+
+describe("IsoDate / IsoDateTime", () => {
+  it("ISO 8601 の日付を受け付けること", () => {
+    expect(newIsoDate("2024-02-29").isOk()).toBe(true);
+    expect(newIsoDate("2023-02-29").isErr()).toBe(true);
+    expect(newIsoDate("2024/01/01").isErr()).toBe(true);
+  });
+
+  it("タイムゾーン付きの日時のみ受け付けること", () => {
+    expect(newIsoDateTime("2024-01-01T09:00:00Z").isOk()).toBe(true);
+    expect(newIsoDateTime("2024-01-01T09:00:00+09:00").isOk()).toBe(true);
+    expect(newIsoDateTime("2024-01-01T09:00:00").isErr()).toBe(true);
+  });
+});
+
+describe("Money", () => {
+  it("整数の金額のみ受け付けること", () => {
+    expect(newMoney(1000).isOk()).toBe(true);
+    expect(newMoney(-500).isOk()).toBe(true);
+    expect(newMoney(10.5).isErr()).toBe(true);
+    expect(newMoney(Number.MAX_SAFE_INTEGER + 1).isErr()).toBe(true);
+  });
+});
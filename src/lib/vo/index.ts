@@ -0,0 +1,186 @@
+import type { Result } from "neverthrow";
+import { z } from "zod";
+import type { ValidationError } from "../../error.js";
+import type { User } from "../../interface.js";
+import { newType } from "../zod/index.js";
+
+/**
+ * メールアドレス. 前後の空白を取り除き, 小文字にする
+ *
+ * @example
+ * ```typescript
+ * newEmail(" Taro@Example.com "); // ok("taro@example.com")
+ * ```
+ */
+export const Email = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .pipe(z.email())
+  .brand<"Email">();
+export type Email = z.infer<typeof Email>;
+export const newEmail = newType(Email, "Email");
+
+/**
+ * User の mail を Email として検証する
+ *
+ * @example
+ * ```typescript
+ * auth.auth(req).andThen(newUserWithEmail); // ResultAsync<User<Email>, ...>
+ * ```
+ */
+export const newUserWithEmail = (
+  user: User,
+): Result<User<Email>, ValidationError> =>
+  newEmail(user.mail, "mail").map((mail) => ({ ...user, mail }));
+
+/**
+ * 空でない文字列. 前後の空白を取り除く
+ */
+export const NonEmptyString = z
+  .string()
+  .trim()
+  .min(1)
+  .brand<"NonEmptyString">();
+export type NonEmptyString = z.infer<typeof NonEmptyString>;
+export const newNonEmptyString = newType(NonEmptyString, "NonEmptyString");
+
+/**
+ * 長さに上限のある文字列のスキーマを作る. 前後の空白を取り除いてから長さを確認する
+ *
+ * @example
+ * ```typescript
+ * const Title = textSchema(100, 1);
+ * export const newTitle = newType(Title, "Title");
+ * ```
+ */
+export const textSchema = (max: number, min = 0) =>
+  z.string().trim().min(min).max(max).brand<"Text">();
+
+/**
+ * 1000 文字までの文字列
+ */
+export const Text = textSchema(1000);
+export type Text = z.infer<typeof Text>;
+export const newText = newType(Text, "Text");
+
+/**
+ * 正の整数
+ */
+export const PositiveInt = z.number().int().positive().brand<"PositiveInt">();
+export type PositiveInt = z.infer<typeof PositiveInt>;
+export const newPositiveInt = newType(PositiveInt, "PositiveInt");
+
+/**
+ * URL のスキーマを作る
+ *
+ * @example
+ * ```typescript
+ * const WebhookUrl = urlSchema({ httpsOnly: true });
+ * ```
+ */
+export const urlSchema = (opts: { httpsOnly?: boolean } = {}) =>
+  z.url({ protocol: opts.httpsOnly ? /^https$/ : /^https?$/ }).brand<"Url">();
+
+/**
+ * http / https の URL
+ */
+export const Url = urlSchema();
+export type Url = z.infer<typeof Url>;
+export const newUrl = newType(Url, "Url");
+
+/**
+ * https の URL
+ */
+export const HttpsUrl = urlSchema({ httpsOnly: true });
+export type HttpsUrl = z.infer<typeof HttpsUrl>;
+export const newHttpsUrl = newType(HttpsUrl, "HttpsUrl");
+
+/**
+ * URL に使う識別子 (小文字英数字をハイフンでつなぐ)
+ *
+ * @example
+ * ```typescript
+ * newSlug("my-first-post"); // ok
+ * newSlug("My Post"); // err
+ * ```
+ */
+export const Slug = z
+  .string()
+  .max(100)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Invalid slug" })
+  .brand<"Slug">();
+export type Slug = z.infer<typeof Slug>;
+export const newSlug = newType(Slug, "Slug");
+
+/**
+ * 日本の電話番号. ハイフン, 空白, 括弧を取り除き, +81 は 0 にする
+ *
+ * @example
+ * ```typescript
+ * newJapanesePhoneNumber("03-1234-5678"); // ok("0312345678")
+ * newJapanesePhoneNumber("+81 90-1234-5678"); // ok("09012345678")
+ * ```
+ */
+export const JapanesePhoneNumber = z
+  .string()
+  .transform((s) =>
+    toHalfWidth(s)
+      .replace(/[\s\-()]/g, "")
+      .replace(/^\+81/, "0"),
+  )
+  .pipe(z.string().regex(/^0\d{9,10}$/, { message: "Invalid phone number" }))
+  .brand<"JapanesePhoneNumber">();
+export type JapanesePhoneNumber = z.infer<typeof JapanesePhoneNumber>;
+export const newJapanesePhoneNumber = newType(
+  JapanesePhoneNumber,
+  "JapanesePhoneNumber",
+);
+
+/**
+ * 日本の郵便番号. "1000001" や "１００－０００１" を "100-0001" にする
+ */
+export const PostalCode = z
+  .string()
+  .transform((s) => toHalfWidth(s).trim().replace(/^〒/, ""))
+  .pipe(z.string().regex(/^\d{3}-?\d{4}$/, { message: "Invalid postal code" }))
+  .transform((s) => `${s.slice(0, 3)}-${s.slice(-4)}`)
+  .brand<"PostalCode">();
+export type PostalCode = z.infer<typeof PostalCode>;
+export const newPostalCode = newType(PostalCode, "PostalCode");
+
+/**
+ * ISO 8601 の日付 (YYYY-MM-DD)
+ */
+export const IsoDate = z.iso.date().brand<"IsoDate">();
+export type IsoDate = z.infer<typeof IsoDate>;
+export const newIsoDate = newType(IsoDate, "IsoDate");
+
+/**
+ * ISO 8601 の日時. タイムゾーン (Z または +09:00) が必須
+ */
+export const IsoDateTime = z.iso
+  .datetime({ offset: true })
+  .brand<"IsoDateTime">();
+export type IsoDateTime = z.infer<typeof IsoDateTime>;
+export const newIsoDateTime = newType(IsoDateTime, "IsoDateTime");
+
+/**
+ * 金額 (円). 整数のみ. 返金などのため負の値も許す
+ */
+export const Money = z.number().int().safe().brand<"Money">();
+export type Money = z.infer<typeof Money>;
+export const newMoney = newType(Money, "Money");
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+
+// 全角の数字と記号 (－, ＋, （, ）) を半角にする. ー (長音) もハイフンとして扱う
+const toHalfWidth = (s: string): string =>
+  s
+    .replace(/[０-９＋－（）]/g, (c) =>
+      String.fromCharCode(c.charCodeAt(0) - 0xfee0),
+    )
+    .replace(/[ー‐―]/g, "-")
+    .replace(/　/g, " ");
@@ -0,0 +1,385 @@
+import { describe, expect, it } from "bun:test";
+import { z } from "zod";
+import { ValidationError } from "../../error.js";
+import { base58, toShortUuid, uuidv4, uuidv7 } from "../uuid/index.js";
+import {
+  newShortUuid,
+  newType,
+  newUuidV4,
+  newUuidV7,
+  parseForm,
+  parseHeaders,
+  parseJson,
+  parseParams,
+  parseQuery,
+  type ShortUuid,
+  shortUuidSchema,
+  UuidV4,
+  UuidV7,
+  validateArray,
+  validateObject,
+} from "./index.js";
+
+const newName = newType(z.string().min(1).brand("Name"), "Name");
+const newEmail = newType(z.email().brand("Email"), "Email");
+const newZip = newType(
+  z
+    .string()
+    .regex(/^\d{3}-\d{4}$/)
+    .brand("Zip"),
+  "Zip",
+);
+const newPoint = newType(z.object({ x: z.number(), y: z.number() }), "Point");
+
+const validateUser = validateObject({
+  name: newName,
+  email: newEmail,
+  address: validateObject({ zip: newZip }),
+  tags: validateArray(newName),
+});
+
+describe("validateObject", () => {
+  it("すべての項目が正しい場合は値を返すこと", () => {
+    const result = validateUser({
+      name: "taro",
+      email: "taro@example.com",
+      address: { zip: "100-0001" },
+      tags: ["a", "b"],
+      extra: true,
+    });
+
+    expect(result._unsafeUnwrap()).toEqual({
+      name: "taro",
+      email: "taro@example.com",
+      address: { zip: "100-0001" },
+      tags: ["a", "b"],
+    } as never);
+  });
+
+  it("すべての項目のエラーを path 付きで 1 つにまとめること", () => {
+    const e = validateUser(
+      {
+        name: "",
+        email: "invalid",
+        address: { zip: "1000001" },
+        tags: ["a", ""],
+      },
+      "user",
+    )._unsafeUnwrapErr();
+
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("user is invalid. ( 4 errors )");
+    expect(e.issues.map((i) => [i.path, i.type])).toEqual([
+      [["name"], "Name"],
+      [["email"], "Email"],
+      [["address", "zip"], "Zip"],
+      [["tags", 1], "Name"],
+    ]);
+    expect(e.details).toEqual([
+      expect.stringMatching(/^user\.name: /),
+      expect.stringMatching(/^user\.email: /),
+      expect.stringMatching(/^user\.address\.zip: /),
+      expect.stringMatching(/^user\.tags\[1\]: /),
+    ]);
+    expect(e.toJSON().issues).toEqual(e.issues);
+  });
+
+  it("zod の issue の path と code を保持すること", () => {
+    const e = validateObject({ point: newPoint })({
+      point: { x: 1, y: "2" },
+    })._unsafeUnwrapErr();
+
+    expect(e.issues).toEqual([
+      {
+        path: ["point", "y"],
+        code: "invalid_type",
+        message: expect.any(String),
+        type: "Point",
+        params: { expected: "number" },
+      },
+    ]);
+  });
+
+  it("オブジェクト以外は invalid_type のエラーにすること", () => {
+    for (const src of [null, "str", 1, []]) {
+      const e = validateUser(src)._unsafeUnwrapErr();
+      expect(e.issues).toEqual([
+        {
+          path: [],
+          code: "invalid_type",
+          message: expect.any(String),
+          params: { expected: "object" },
+        },
+      ]);
+    }
+
+    const nested = validateUser({
+      name: "taro",
+      email: "taro@example.com",
+      address: null,
+      tags: "a",
+    })._unsafeUnwrapErr();
+    expect(nested.issues.map((i) => [i.path, i.code])).toEqual([
+      [["address"], "invalid_type"],
+      [["tags"], "invalid_type"],
+    ]);
+  });
+});
+
+const jsonRequest = (body: string, contentType = "application/json") =>
+  new Request("https://example.com/users", {
+    method: "POST",
+    headers: { "content-type": contentType },
+    body,
+  });
+
+const CreateUser = z.object({ name: z.string(), age: z.number() });
+
+describe("parseJson", () => {
+  it("JSON のボディを検証して返すこと", async () => {
+    const result = await parseJson(
+      jsonRequest(
+        '{"name":"taro","age":20}',
+        "application/json; charset=utf-8",
+      ),
+      CreateUser,
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({ name: "taro", age: 20 });
+  });
+
+  it("不正な JSON は newType と同じ形式の ValidationError にすること", async () => {
+    const e = (
+      await parseJson(jsonRequest("{name:"), CreateUser, { type: "CreateUser" })
+    )._unsafeUnwrapErr();
+
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("CreateUser is invalid. ( type: CreateUser )");
+    expect(e.details[0]).toStartWith("CreateUser: Malformed JSON: ");
+    expect(e.issues[0]).toMatchObject({ path: [], code: "invalid_json" });
+  });
+
+  it("スキーマに合わない場合は zod の issue を返すこと", async () => {
+    const e = (
+      await parseJson(jsonRequest('{"name":"taro","age":"20"}'), CreateUser)
+    )._unsafeUnwrapErr();
+
+    expect(e.message).toBe("JsonBody is invalid. ( type: JsonBody )");
+    expect(e.issues[0]).toMatchObject({ path: ["age"], code: "invalid_type" });
+  });
+
+  it("Content-Type が JSON でない場合はエラーにすること", async () => {
+    const e = (
+      await parseJson(jsonRequest("{}", "text/plain"), CreateUser)
+    )._unsafeUnwrapErr();
+
+    expect(e.issues[0]).toMatchObject({ code: "invalid_content_type" });
+  });
+
+  it("maxSize を超えるボディはエラーにすること", async () => {
+    const body = JSON.stringify({ name: "x".repeat(100), age: 1 });
+    const e = (
+      await parseJson(jsonRequest(body), CreateUser, { maxSize: 50 })
+    )._unsafeUnwrapErr();
+    expect(e.issues[0]).toMatchObject({ code: "too_big" });
+
+    // Content-Length がないストリームでも読み込みを打ち切ること
+    const stream = new Request("https://example.com/users", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: new Blob([body]).stream(),
+    });
+    const e2 = (
+      await parseJson(stream, CreateUser, { maxSize: 50 })
+    )._unsafeUnwrapErr();
+    expect(e2.issues[0]).toMatchObject({ code: "too_big" });
+  });
+});
+
+describe("parseForm", () => {
+  it("フォームの値をスキーマに合わせて変換すること", async () => {
+    const form = new FormData();
+    form.append("title", "hello");
+    form.append("count", "3");
+    form.append("public", "on");
+    form.append("tags", "a");
+    form.append("tags", "b");
+    const req = new Request("https://example.com/posts", {
+      method: "POST",
+      body: form,
+    });
+
+    const result = await parseForm(
+      req,
+      z.object({
+        title: z.string(),
+        count: z.number(),
+        public: z.boolean(),
+        tags: z.array(z.string()),
+      }),
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({
+      title: "hello",
+      count: 3,
+      public: true,
+      tags: ["a", "b"],
+    });
+  });
+
+  it("フォーム以外の Content-Type はエラーにすること", async () => {
+    const e = (
+      await parseForm(jsonRequest("{}"), z.object({}))
+    )._unsafeUnwrapErr();
+
+    expect(e.message).toBe("FormBody is invalid. ( type: FormBody )");
+    expect(e.issues[0]).toMatchObject({ code: "invalid_content_type" });
+  });
+});
+
+describe("parseQuery", () => {
+  const Search = z.object({
+    q: z.string(),
+    page: z.number().int().default(1),
+    exact: z.boolean().optional(),
+    tag: z.array(z.string()).optional(),
+    id: z.array(z.number()).optional(),
+  });
+
+  it("クエリ文字列を数値, 真偽値, 配列に変換すること", async () => {
+    const result = await parseQuery(
+      "https://example.com/search?q=007&page=2&exact=false&tag=a&tag=b&id=1",
+      Search,
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({
+      q: "007",
+      page: 2,
+      exact: false,
+      tag: ["a", "b"],
+      id: [1],
+    });
+  });
+
+  it("省略された値にはデフォルトを使うこと", async () => {
+    const result = await parseQuery(
+      new Request("https://example.com/search?q=foo"),
+      Search,
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({ q: "foo", page: 1 });
+  });
+
+  it("相対 URL とクエリ文字列だけの URL を受け付けること", async () => {
+    for (const url of ["/search?q=foo&page=2", "?q=foo&page=2"]) {
+      const result = await parseQuery(url, Search);
+      expect(result._unsafeUnwrap()).toEqual({ q: "foo", page: 2 });
+    }
+  });
+
+  it("URL として不正な場合は例外ではなく ValidationError にすること", async () => {
+    const e = (
+      await parseQuery("http://[invalid/search?q=foo", Search)
+    )._unsafeUnwrapErr();
+
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("Query is invalid. ( type: Query )");
+    expect(e.issues[0]).toMatchObject({ path: [], code: "invalid_url" });
+  });
+
+  it("__proto__ のキーは捨て, constructor などのキーは値として扱うこと", async () => {
+    const result = await parseQuery(
+      "/search?q=foo&__proto__=x&__proto__=y&constructor=1&toString=2",
+      z.looseObject({ q: z.string() }),
+    );
+    const value = result._unsafeUnwrap() as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.entries(value)).toEqual([
+      ["q", "foo"],
+      ["constructor", "1"],
+      ["toString", "2"],
+    ]);
+  });
+
+  it("変換できない値はエラーにすること", async () => {
+    const e = (
+      await parseQuery("https://example.com/search?q=foo&page=abc", Search)
+    )._unsafeUnwrapErr();
+
+    expect(e.message).toBe("Query is invalid. ( type: Query )");
+    expect(e.issues[0]).toMatchObject({ path: ["page"], type: "Query" });
+  });
+});
+
+describe("parseParams", () => {
+  it("パスパラメータを変換して検証すること", async () => {
+    const schema = z.object({ id: z.number().int(), slug: z.string() });
+
+    expect(
+      (await parseParams({ id: "42", slug: "hello" }, schema))._unsafeUnwrap(),
+    ).toEqual({ id: 42, slug: "hello" });
+    expect(
+      (await parseParams({ id: "x", slug: "hello" }, schema)).isErr(),
+    ).toBe(true);
+  });
+});
+
+describe("parseHeaders", () => {
+  it("ヘッダを小文字のキーで検証し, 配列はカンマで分割すること", async () => {
+    const req = new Request("https://example.com", {
+      headers: { "X-Api-Version": "2", Accept: "text/html, application/json" },
+    });
+
+    const result = await parseHeaders(
+      req,
+      z.object({ "x-api-version": z.number(), accept: z.array(z.string()) }),
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({
+      "x-api-version": 2,
+      accept: ["text/html", "application/json"],
+    });
+  });
+});
+
+describe("UuidV4 / UuidV7", () => {
+  it("バージョンが一致する UUID のみ受け付けること", () => {
+    const v4 = uuidv4();
+    const v7 = uuidv7();
+
+    expect(newUuidV4(v4)._unsafeUnwrap()).toBe(v4 as UuidV4);
+    expect(newUuidV7(v7)._unsafeUnwrap()).toBe(v7 as UuidV7);
+    expect(UuidV4.safeParse(v7).success).toBe(false);
+    expect(UuidV7.safeParse(v4).success).toBe(false);
+  });
+
+  it("UUID でない値は型名付きの ValidationError になること", () => {
+    const e = newUuidV4("not-a-uuid", "userId")._unsafeUnwrapErr();
+
+    expect(e).toBeInstanceOf(ValidationError);
+    expect(e.message).toBe("userId is invalid. ( type: UuidV4 )");
+    expect(e.issues[0]).toMatchObject({ code: "invalid_format" });
+    expect(newUuidV7(undefined).isErr()).toBe(true);
+  });
+});
+
+describe("ShortUuid", () => {
+  it("Base64URL の短縮 UUID を受け付けること", () => {
+    const short = toShortUuid(uuidv4())._unsafeUnwrap();
+
+    expect(newShortUuid(short)._unsafeUnwrap()).toBe(short as ShortUuid);
+    expect(newShortUuid(short.slice(1)).isErr()).toBe(true);
+    expect(newShortUuid(`${short.slice(0, -1)}_`).isErr()).toBe(true);
+  });
+
+  it("shortUuidSchema で表記を指定できること", () => {
+    const schema = shortUuidSchema(base58);
+    const short = toShortUuid(uuidv7(), base58)._unsafeUnwrap();
+
+    expect(schema.safeParse(short).success).toBe(true);
+    // 0 は Base58 で使わない文字
+    const result = schema.safeParse("0".repeat(22));
+    expect(result.error?.issues[0].message).toBe("Invalid short UUID (base58)");
+  });
+});
@@ -0,0 +1,138 @@
+import { err, ok, type Result } from "neverthrow";
+import { ValidationError, type ValidationIssue } from "../../error.js";
+import type { Validator } from "./type.js";
+
+// 項目ごとの Validator
+export type ValidatorShape = Record<string, Validator<unknown>>;
+
+// ValidatorShape から検証後のオブジェクトの型を作る
+export type Validated<S extends ValidatorShape> = {
+  [K in keyof S]: S[K] extends Validator<infer T> ? T : never;
+};
+
+/**
+ * オブジェクトの各項目を検証する Validator を作る
+ *
+ * 最初のエラーで止めずにすべての項目を検証し, エラーを 1 つの ValidationError にまとめる.
+ * issues の path には項目名 (ネストした場合は親の項目名から) を付ける
+ *
+ * @example
+ * ```typescript
+ * const validateUser = validateObject({
+ *   name: newName,
+ *   email: newEmail,
+ *   address: validateObject({ zip: newZip, city: newCity }),
+ *   tags: validateArray(newTag),
+ * });
+ *
+ * validateUser(body); // Result<{ name: Name; email: Email; ... }, ValidationError>
+ * // err.issues: [{ path: ["address", "zip"], code: "invalid_format", message: "...", type: "Zip" }]
+ * ```
+ */
+export const validateObject =
+  <S extends ValidatorShape>(shape: S): Validator<Validated<S>> =>
+  (src: unknown, name?: string): Result<Validated<S>, ValidationError> => {
+    if (typeof src !== "object" || src === null || Array.isArray(src)) {
+      return err(notOf("object", src, name));
+    }
+    const input = src as Record<string, unknown>;
+    return collect(
+      Object.entries(shape).map(
+        ([key, validate]) =>
+          [
+            key,
+            validate(input[key], childName(name, key)).mapErr(
+              prefixIssues(key),
+            ),
+          ] as const,
+      ),
+      name || "object",
+    ).map((entries) => Object.fromEntries(entries) as Validated<S>);
+  };
+
+/**
+ * 配列の各要素を検証する Validator を作る
+ *
+ * @example
+ * ```typescript
+ * const validateTags = validateArray(newTag);
+ * validateTags(["a", ""], "tags"); // err.issues: [{ path: [1], ... }]
+ * ```
+ */
+export const validateArray =
+  <T>(validate: Validator<T>): Validator<T[]> =>
+  (src: unknown, name?: string): Result<T[], ValidationError> => {
+    if (!Array.isArray(src)) {
+      return err(notOf("array", src, name));
+    }
+    return collect(
+      src.map(
+        (v, i) =>
+          [
+            i,
+            validate(v, `${name ?? ""}[${i}]`).mapErr(prefixIssues(i)),
+          ] as const,
+      ),
+      name || "array",
+    ).map((entries) => entries.map(([, v]) => v));
+  };
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+const childName = (name: string | undefined, key: string) =>
+  name ? `${name}.${key}` : key;
+
+// issues の path の先頭に項目名 (または添字) を付ける
+const prefixIssues =
+  (key: string | number) =>
+  (e: ValidationError): ValidationError =>
+    new ValidationError(
+      e.message,
+      e.details,
+      e.cause,
+      e.issues.length > 0
+        ? e.issues.map((i) => ({ ...i, path: [key, ...i.path] }))
+        : [{ path: [key], code: "custom", message: e.message }],
+    );
+
+// すべて成功なら値を, 1 つでも失敗ならすべてのエラーをまとめて返す
+const collect = <K, T>(
+  results: (readonly [K, Result<T, ValidationError>])[],
+  name: string,
+): Result<[K, T][], ValidationError> => {
+  const errors = results.flatMap(([, r]) => (r.isErr() ? [r.error] : []));
+  if (errors.length > 0) {
+    return err(
+      new ValidationError(
+        `${name} is invalid. ( ${errors.length} errors )`,
+        errors.flatMap((e) => e.details),
+        undefined,
+        errors.flatMap((e) => e.issues),
+      ),
+    );
+  }
+  return ok(
+    results.flatMap(([k, r]) => (r.isOk() ? [[k, r.value] as [K, T]] : [])),
+  );
+};
+
+const notOf = (
+  expected: "object" | "array",
+  src: unknown,
+  name?: string,
+): ValidationError => {
+  const message = `Expected ${expected}, received ${src === null ? "null" : Array.isArray(src) ? "array" : typeof src}`;
+  const issue: ValidationIssue = {
+    path: [],
+    code: "invalid_type",
+    message,
+    params: { expected },
+  };
+  return new ValidationError(
+    `${name || expected} is invalid.`,
+    [`${name || expected}: ${message}`],
+    undefined,
+    [issue],
+  );
+};
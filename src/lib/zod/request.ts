@@ -0,0 +1,414 @@
+import { errAsync, okAsync, type Result, ResultAsync } from "neverthrow";
+import type { z } from "zod";
+import type { ValidationError } from "../../error.js";
+import { newType, typeValidationError } from "./type.js";
+
+export interface ParseOptions {
+  type?: string; // エラーに表示する型名
+  name?: string; // エラーに表示する項目名
+}
+
+export interface ParseBodyOptions extends ParseOptions {
+  maxSize?: number; // ボディの最大バイト数 (デフォルト 1MiB)
+}
+
+const DEFAULT_MAX_SIZE = 1024 * 1024;
+
+const JSON_TYPES = [/^application\/json$/, /^application\/[^/]+\+json$/];
+const FORM_TYPES = [
+  /^application\/x-www-form-urlencoded$/,
+  /^multipart\/form-data$/,
+];
+
+/**
+ * JSON のリクエストボディを検証する
+ *
+ * Content-Type が JSON でない場合, maxSize を超える場合, JSON として不正な場合も ValidationError を返す
+ *
+ * @example
+ * ```typescript
+ * const CreateUser = z.object({ name: z.string(), email: z.email() });
+ * parseJson(req, CreateUser).andThen((body) => createUser(body));
+ * ```
+ */
+export const parseJson = <T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T,
+  opts: ParseBodyOptions = {},
+): ResultAsync<z.infer<T>, ValidationError> => {
+  const type = opts.type ?? "JsonBody";
+  return readBody(req, JSON_TYPES, type, opts)
+    .andThen((bytes) => {
+      try {
+        return okAsync<unknown, ValidationError>(
+          JSON.parse(new TextDecoder().decode(bytes)),
+        );
+      } catch (e) {
+        return errAsync(
+          typeValidationError(
+            type,
+            [
+              {
+                path: [],
+                code: "invalid_json",
+                message: `Malformed JSON: ${e instanceof Error ? e.message : String(e)}`,
+              },
+            ],
+            opts.name,
+            e,
+          ),
+        );
+      }
+    })
+    .andThen((data) => fromResult(newType(schema, type)(data, opts.name)));
+};
+
+/**
+ * フォーム (urlencoded / multipart) のリクエストボディを検証する
+ *
+ * 値はスキーマに合わせて数値, 真偽値, 配列に変換する. ファイルは File のまま渡す
+ *
+ * @example
+ * ```typescript
+ * const Upload = z.object({ title: z.string(), public: z.boolean(), file: z.instanceof(File) });
+ * parseForm(req, Upload);
+ * ```
+ */
+export const parseForm = <T extends z.ZodTypeAny>(
+  req: Request,
+  schema: T,
+  opts: ParseBodyOptions = {},
+): ResultAsync<z.infer<T>, ValidationError> => {
+  const type = opts.type ?? "FormBody";
+  return readBody(req, FORM_TYPES, type, opts)
+    .andThen((bytes) =>
+      ResultAsync.fromPromise(
+        new Response(bytes, {
+          headers: { "content-type": req.headers.get("content-type") ?? "" },
+        }).formData(),
+        (e) =>
+          typeValidationError(
+            type,
+            [
+              {
+                path: [],
+                code: "invalid_form",
+                message: `Malformed form data: ${e instanceof Error ? e.message : String(e)}`,
+              },
+            ],
+            opts.name,
+            e,
+          ),
+      ),
+    )
+    .andThen((form) =>
+      fromResult(
+        newType(schema, type)(
+          coerceEntries(schema, form.keys(), (k) => form.getAll(k)),
+          opts.name,
+        ),
+      ),
+    );
+};
+
+/**
+ * クエリ文字列を検証する
+ *
+ * 値はスキーマに合わせて数値, 真偽値, 配列 (同じキーの繰り返し) に変換する.
+ * 相対 URL ("/users?page=2") やクエリ文字列だけ ("?page=2") も受け付け, URL として不正な場合は ValidationError を返す
+ *
+ * @example
+ * ```typescript
+ * const Search = z.object({ q: z.string(), page: z.number().default(1), tag: z.array(z.string()).optional() });
+ * parseQuery(req.url, Search); // ?q=foo&page=2&tag=a&tag=b -> { q: "foo", page: 2, tag: ["a", "b"] }
+ * ```
+ */
+export const parseQuery = <T extends z.ZodTypeAny>(
+  url: string | URL | Request,
+  schema: T,
+  opts: ParseOptions = {},
+): ResultAsync<z.infer<T>, ValidationError> => {
+  const type = opts.type ?? "Query";
+  const value = url instanceof Request ? url.url : url;
+  let params: URLSearchParams;
+  try {
+    // 相対 URL はクエリ文字列を取り出すためだけにダミーのオリジンで解決する
+    params = new URL(value, "http://localhost").searchParams;
+  } catch (e) {
+    return errAsync(
+      typeValidationError(
+        type,
+        [
+          {
+            path: [],
+            code: "invalid_url",
+            message: `Invalid URL: ${String(value)}`,
+            params: { value: String(value) },
+          },
+        ],
+        opts.name,
+        e,
+      ),
+    );
+  }
+  return fromResult(
+    newType(schema, type)(
+      coerceEntries(schema, params.keys(), (k) => params.getAll(k)),
+      opts.name,
+    ),
+  );
+};
+
+/**
+ * パスパラメータを検証する
+ *
+ * 値はスキーマに合わせて数値, 真偽値に変換する
+ *
+ * @example
+ * ```typescript
+ * parseParams({ id: "42" }, z.object({ id: z.number().int() })); // ok({ id: 42 })
+ * ```
+ */
+export const parseParams = <T extends z.ZodTypeAny>(
+  params: Record<string, string | undefined>,
+  schema: T,
+  opts: ParseOptions = {},
+): ResultAsync<z.infer<T>, ValidationError> =>
+  fromResult(
+    newType(schema, opts.type ?? "Params")(
+      coerceEntries(schema, Object.keys(params), (k) => {
+        const v = params[k];
+        return v === undefined ? [] : [v];
+      }),
+      opts.name,
+    ),
+  );
+
+/**
+ * リクエストヘッダを検証する
+ *
+ * キーは小文字になる. 配列のスキーマの場合はカンマ区切りの値を分割する
+ *
+ * @example
+ * ```typescript
+ * const ApiHeaders = z.object({ "x-api-version": z.number(), accept: z.array(z.string()) });
+ * parseHeaders(req, ApiHeaders);
+ * ```
+ */
+export const parseHeaders = <T extends z.ZodTypeAny>(
+  req: Request | Headers,
+  schema: T,
+  opts: ParseOptions = {},
+): ResultAsync<z.infer<T>, ValidationError> => {
+  const headers = req instanceof Request ? req.headers : req;
+  const shape = objectShape(schema);
+  return fromResult(
+    newType(schema, opts.type ?? "Headers")(
+      coerceEntries(schema, headers.keys(), (k) => {
+        const v = headers.get(k);
+        if (v === null) {
+          return [];
+        }
+        return shape &&
+          Object.prototype.hasOwnProperty.call(shape, k) &&
+          kindOf(shape[k]) === "array"
+          ? v.split(",").map((s) => s.trim())
+          : [v];
+      }),
+      opts.name,
+    ),
+  );
+};
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+type FormValue = string | File;
+
+// zod の内部定義 (_zod.def) のうち, 変換に使う部分
+interface SchemaDef {
+  type: string;
+  innerType?: z.ZodType;
+  in?: z.ZodType;
+  element?: z.ZodType;
+  shape?: Record<string, z.ZodType>;
+  values?: unknown[];
+}
+
+type Kind = "number" | "boolean" | "array" | "other";
+
+const defOf = (schema: z.ZodType): SchemaDef =>
+  schema._zod.def as unknown as SchemaDef;
+
+// optional / nullable / default などを外した中身のスキーマ
+const unwrap = (schema: z.ZodType): z.ZodType => {
+  const def = defOf(schema);
+  if (def.innerType) {
+    return unwrap(def.innerType);
+  }
+  return def.type === "pipe" && def.in ? unwrap(def.in) : schema;
+};
+
+const objectShape = (
+  schema: z.ZodType,
+): Record<string, z.ZodType> | undefined => {
+  const def = defOf(unwrap(schema));
+  return def.type === "object" ? def.shape : undefined;
+};
+
+const kindOf = (schema: z.ZodType): Kind => {
+  const def = defOf(unwrap(schema));
+  switch (def.type) {
+    case "number":
+    case "boolean":
+    case "array":
+      return def.type;
+    case "literal":
+      return typeof def.values?.[0] === "number"
+        ? "number"
+        : typeof def.values?.[0] === "boolean"
+          ? "boolean"
+          : "other";
+    default:
+      return "other";
+  }
+};
+
+// 文字列の値をスキーマに合わせて変換する. 変換できない場合はそのまま渡して zod のエラーにする
+const coerceValue = (kind: Kind, v: FormValue): unknown => {
+  if (typeof v !== "string") {
+    return v;
+  }
+  if (kind === "number") {
+    return v.trim() !== "" && !Number.isNaN(Number(v)) ? Number(v) : v;
+  }
+  if (kind === "boolean") {
+    const lower = v.toLowerCase();
+    if (["true", "1", "on", "yes"].includes(lower)) {
+      return true;
+    }
+    if (["false", "0", "off", "no"].includes(lower)) {
+      return false;
+    }
+  }
+  return v;
+};
+
+// キーと値の一覧をスキーマに合わせたオブジェクトにする
+const coerceEntries = (
+  schema: z.ZodType,
+  keys: Iterable<string>,
+  getAll: (key: string) => FormValue[],
+): Record<string, unknown> => {
+  const shape = objectShape(schema);
+  const entries: [string, unknown][] = [];
+  for (const key of new Set(keys)) {
+    // キーはリクエストが決めるので, プロトタイプを書き換える "__proto__" は捨てる
+    if (key === "__proto__") {
+      continue;
+    }
+    const values = getAll(key);
+    // "constructor" などのキーで Object.prototype のプロパティを拾わない
+    const field =
+      shape && Object.prototype.hasOwnProperty.call(shape, key)
+        ? shape[key]
+        : undefined;
+    if (field && kindOf(field) === "array") {
+      const element = defOf(unwrap(field)).element;
+      const kind = element ? kindOf(element) : "other";
+      entries.push([key, values.map((v) => coerceValue(kind, v))]);
+    } else if (field) {
+      entries.push([key, coerceValue(kindOf(field), values[0])]);
+    } else {
+      entries.push([key, values.length > 1 ? values : values[0]]);
+    }
+  }
+  return Object.fromEntries(entries);
+};
+
+const fromResult = <T>(
+  r: Result<T, ValidationError>,
+): ResultAsync<T, ValidationError> =>
+  r.isOk() ? okAsync(r.value) : errAsync(r.error);
+
+const mediaType = (req: Request): string =>
+  (req.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+
+// Content-Type と大きさを確認してボディを読む
+const readBody = (
+  req: Request,
+  accepts: RegExp[],
+  type: string,
+  opts: ParseBodyOptions,
+): ResultAsync<Uint8Array<ArrayBuffer>, ValidationError> => {
+  const maxSize = opts.maxSize ?? DEFAULT_MAX_SIZE;
+  const fail = (
+    code: string,
+    message: string,
+    params?: Record<string, unknown>,
+    cause?: unknown,
+  ) =>
+    errAsync(
+      typeValidationError(
+        type,
+        [{ path: [], code, message, params }],
+        opts.name,
+        cause,
+      ),
+    );
+  const tooBig = () =>
+    fail("too_big", `Body too large: exceeds ${maxSize} bytes`, {
+      origin: "body",
+      maximum: maxSize,
+    });
+
+  const contentType = mediaType(req);
+  if (!accepts.some((re) => re.test(contentType))) {
+    return fail(
+      "invalid_content_type",
+      `Unsupported content type: ${contentType || "(none)"}`,
+      { contentType },
+    );
+  }
+  const length = Number(req.headers.get("content-length"));
+  if (req.headers.has("content-length") && length > maxSize) {
+    return tooBig();
+  }
+  return ResultAsync.fromPromise(readLimited(req.body, maxSize), (e) => e)
+    .orElse((e) =>
+      fail("invalid_body", `Failed to read body: ${String(e)}`, undefined, e),
+    )
+    .andThen((bytes) => (bytes ? okAsync(bytes) : tooBig()));
+};
+
+// maxSize を超えた時点で読むのをやめて undefined を返す
+const readLimited = async (
+  body: ReadableStream<Uint8Array> | null,
+  maxSize: number,
+): Promise<Uint8Array<ArrayBuffer> | undefined> => {
+  if (!body) {
+    return new Uint8Array(0);
+  }
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+};
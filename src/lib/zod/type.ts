@@ -0,0 +1,111 @@
+import { err, ok, type Result } from "neverthrow";
+import { match } from "ts-pattern";
+import type { ZodError, z } from "zod";
+import { ValidationError, type ValidationIssue } from "../../error.js";
+
+// 値を検証して T にする関数. name はエラーメッセージに使う項目名
+export type Validator<T> = (
+  src: unknown,
+  name?: string,
+) => Result<T, ValidationError>;
+
+/**
+ * newType は, ValueObjectを生成関数を作成するためのヘルパー関数
+ *
+ * @param schema zodのスキーマ
+ * @param type VOの型名
+ *
+ * @example
+ * ```typescript
+ * // Email VO の定義
+ * const email = z.string().email().brand("Email");
+ * export type Email = z.infer<typeof email>;
+ * export const newEmail = newType(email, "Email");
+ *
+ * // 使用方法
+ * const result1 = newEmail(str); // VO の生成
+ * const result2 = newEmail(str, "userEmail"); // エラーに userEmail と表示する場合
+ *
+ * ```
+ */
+export const newType =
+  <T extends z.ZodTypeAny>(schema: T, type: string): Validator<z.infer<T>> =>
+  (src: unknown, name?: string): Result<z.infer<T>, ValidationError> =>
+    match(schema.safeParse(src))
+      .with({ success: true }, ({ data }) => ok(data))
+      .with({ success: false }, ({ error }) =>
+        err(newValidationError(type, error, name)),
+      )
+      .exhaustive();
+
+const newValidationError = (type: string, e: ZodError, name?: string) =>
+  typeValidationError(
+    type,
+    e.issues.map((issue) => ({
+      path: issue.path.map((p) => (typeof p === "symbol" ? String(p) : p)),
+      code: issueCode(issue),
+      message: issue.message,
+      params: issueParams(issue),
+    })),
+    name,
+    e,
+  );
+
+/**
+ * newType と同じ形式の ValidationError を作る
+ *
+ * zod の検証以外で失敗した場合 (JSON のパースなど) に使う
+ *
+ * @example
+ * ```typescript
+ * typeValidationError("Body", [{ path: [], code: "invalid_json", message: "Malformed JSON" }]);
+ * // message: "Body is invalid. ( type: Body )", details: ["Body: Malformed JSON"]
+ * ```
+ */
+export const typeValidationError = (
+  type: string,
+  issues: Omit<ValidationIssue, "type">[],
+  name?: string,
+  cause?: unknown,
+): ValidationError =>
+  new ValidationError(
+    `${name || type} is invalid. ( type: ${type} )`,
+    issues.map((issue) => `${name || type}: ${issue.message}`),
+    cause,
+    issues.map((issue) => ({ ...issue, type })),
+  );
+
+// ----------------------------------------------------------------------------
+// Internal Utils
+// ----------------------------------------------------------------------------
+type ZodIssue = ZodError["issues"][number];
+
+// params に含めない issue のプロパティ
+const OMIT_PARAMS = new Set([
+  "code",
+  "path",
+  "message",
+  "input",
+  "inst",
+  "errors",
+  "pattern",
+  "params",
+]);
+
+// custom の issue は params.code があればそれを code にする
+// (refine(fn, { params: { code: "invalid_duration" } }) など)
+const issueCode = (issue: ZodIssue): string =>
+  issue.code === "custom" && typeof issue.params?.code === "string"
+    ? issue.params.code
+    : issue.code;
+
+const issueParams = (issue: ZodIssue): Record<string, unknown> | undefined => {
+  const params = Object.fromEntries(
+    Object.entries(issue).filter(([k]) => !OMIT_PARAMS.has(k)),
+  );
+  if (issue.code === "custom" && issue.params) {
+    const { code: _, ...rest } = issue.params;
+    Object.assign(params, rest);
+  }
+  return Object.keys(params).length > 0 ? params : undefined;
+};
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { base64Url, fromShortUuid, type UuidEncoding } from "../uuid/index.js";
+import { newType } from "./type.js";
+
+/**
+ * UUID v4 の branded スキーマ
+ *
+ * @example
+ * ```typescript
+ * const id = newUuidV4(req.params.id, "userId"); // Result<UuidV4, ValidationError>
+ * const User = z.object({ id: UuidV4, name: z.string() });
+ * ```
+ */
+export const UuidV4 = z.uuid({ version: "v4" }).brand<"UuidV4">();
+export type UuidV4 = z.infer<typeof UuidV4>;
+export const newUuidV4 = newType(UuidV4, "UuidV4");
+
+/**
+ * UUID v7 の branded スキーマ
+ */
+export const UuidV7 = z.uuid({ version: "v7" }).brand<"UuidV7">();
+export type UuidV7 = z.infer<typeof UuidV7>;
+export const newUuidV7 = newType(UuidV7, "UuidV7");
+
+/**
+ * 短縮 UUID の branded スキーマを作る (lib/uuid の toShortUuid で作った文字列)
+ */
+export const shortUuidSchema = (encoding: UuidEncoding = base64Url) =>
+  z
+    .string()
+    .refine((s) => fromShortUuid(s, encoding).isOk(), {
+      message: `Invalid short UUID (${encoding.name})`,
+    })
+    .brand<"ShortUuid">();
+
+/**
+ * Base64URL の短縮 UUID の branded スキーマ
+ */
+export const ShortUuid = shortUuidSchema();
+export type ShortUuid = z.infer<typeof ShortUuid>;
+export const newShortUuid = newType(ShortUuid, "ShortUuid");